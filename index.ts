@@ -1,3 +1,4 @@
+import { timingSafeEqual } from "node:crypto";
 import express, {
   type Request,
   type Response,
@@ -5,7 +6,7 @@ import express, {
 } from "express";
 import { ZodError } from "zod";
 
-import { processWebhookEvent, processManualFlowTrigger } from "./lib/meta";
+import { processManualFlowTrigger } from "./lib/meta";
 import type {
   ManualFlowTriggerOptions,
   ManualFlowTriggerResult,
@@ -20,6 +21,65 @@ import {
   type FlowResource,
   type FlowUpdateInput,
 } from "./lib/flow-service";
+import {
+  accountWebhookFields,
+  listAccountEvents,
+  WEBHOOK_ERRORS_FIELD,
+} from "./lib/account-events";
+import {
+  parseInboundButton,
+  parseInboundContacts,
+  parseInboundFlowResponse,
+  parseInboundLocation,
+  parseInboundOrder,
+  parseInboundReaction,
+} from "./lib/inbound-message";
+import { getContactResource } from "./lib/service-window";
+import {
+  META_SANDBOX_ENABLED,
+  registerMetaSandboxRoutes,
+} from "./lib/meta-sandbox";
+import {
+  getInboundDedupMetrics,
+  startInboundDedupCleanup,
+} from "./lib/inbound-dedup";
+import {
+  getMediaAsset,
+  MEDIA_UPLOAD_MAX_BYTES,
+  MediaError,
+  readMediaAssetContent,
+  toMediaAssetResource,
+  uploadMediaAsset,
+} from "./lib/media";
+import { getOutboundDispatcherMetrics } from "./lib/outbound-dispatcher";
+import {
+  getFlowSchedulerMetrics,
+  startFlowScheduler,
+} from "./lib/flow-scheduler";
+import { listOutboundMessages } from "./lib/outbound-messages";
+import {
+  archiveWebhookPayload,
+  getWebhookArchive,
+  listWebhookArchive,
+  replayWebhookArchive,
+  startWebhookArchiveCleanup,
+  webhookArchiveOutcomes,
+  WebhookReplayError,
+} from "./lib/webhook-archive";
+import {
+  enqueueWebhookJob,
+  getWebhookJob,
+  getWebhookQueueStats,
+  listWebhookJobs,
+  requeueWebhookJob,
+  startWebhookWorker,
+  webhookJobStatuses,
+} from "./lib/webhook-queue";
+import {
+  WEBHOOK_SIGNATURE_HEADER,
+  verifyWebhookSignature,
+  verifyWebhookSubscription,
+} from "./lib/webhook-auth";
 
 type ManualFlowTriggerRequestBody = {
   from?: string;
@@ -30,40 +90,94 @@ type ManualFlowTriggerRequestBody = {
 };
 
 type FlowSuccessResponse = { success: true; flow: FlowResource };
-type FlowErrorResponse = { success: false; error: string };
+type FlowErrorResponse = { success: false; error: string; details?: unknown };
 
 const app = express();
 
-app.use(express.json({ limit: "5mb" }));
+app.use(
+  express.json({
+    limit: "5mb",
+    // Keep the exact bytes Meta signed for X-Hub-Signature-256 verification
+    verify: (req, _res, buf) => {
+      req.rawBody = buf;
+    },
+  }),
+);
 app.use(express.urlencoded({ extended: true }));
 
+const ADMIN_API_TOKEN = process.env.ADMIN_API_TOKEN?.trim() ?? "";
+
 const VERIFY_TOKEN =
   process.env.META_VERIFY_TOKEN ??
   process.env.WHATSAPP_VERIFY_TOKEN ??
   process.env.VERIFY_TOKEN ??
   "";
 
+const requireAdminToken = (req: Request, res: Response, next: NextFunction) => {
+  const authorization = req.get("authorization") ?? "";
+  const provided = authorization.toLowerCase().startsWith("bearer ")
+    ? authorization.slice(7).trim()
+    : (req.get("x-admin-token")?.trim() ?? "");
+
+  const expected = Buffer.from(ADMIN_API_TOKEN);
+  const received = Buffer.from(provided);
+  if (
+    !ADMIN_API_TOKEN ||
+    expected.length !== received.length ||
+    !timingSafeEqual(expected, received)
+  ) {
+    res.status(401).json({ error: "Unauthorized" });
+    return;
+  }
+
+  next();
+};
+
 app.get("/health", (_req: Request, res: Response) => {
   res.json({ status: "ok" });
 });
 
-app.get("/meta/webhook", (req: Request, res: Response) => {
-  const mode = req.query["hub.mode"];
-  const token = req.query["hub.verify_token"];
-  const challenge = req.query["hub.challenge"];
+app.get("/metrics", requireAdminToken, (_req: Request, res: Response) => {
+  res.json({
+    inbound: getInboundDedupMetrics(),
+    outbound: getOutboundDispatcherMetrics(),
+    scheduler: getFlowSchedulerMetrics(),
+  });
+});
+
+const handleWebhookVerification = async (
+  req: Request,
+  res: Response,
+  userId: string | null,
+) => {
+  try {
+    const result = await verifyWebhookSubscription({
+      mode: req.query["hub.mode"],
+      token: req.query["hub.verify_token"],
+      challenge: req.query["hub.challenge"],
+      userId,
+      globalToken: VERIFY_TOKEN,
+    });
 
-  if (mode === "subscribe" && typeof challenge === "string") {
-    if (!VERIFY_TOKEN || token !== VERIFY_TOKEN) {
-      res.sendStatus(403);
+    if (!result.valid) {
+      res.status(result.status).send(result.error);
       return;
     }
 
-    res.status(200).send(challenge);
-    return;
+    res.status(200).send(req.query["hub.challenge"]);
+  } catch (error) {
+    console.error("Failed to verify webhook subscription:", error);
+    res.status(500).send("Failed to verify webhook subscription");
   }
+};
 
-  res.status(400).send("Invalid verification request");
-});
+app.get("/meta/webhook", (req: Request, res: Response) =>
+  handleWebhookVerification(req, res, null),
+);
+
+app.get<{ userId: string }>("/meta/webhook/:userId", (req, res) =>
+  handleWebhookVerification(req, res, req.params.userId),
+);
 
 const isRecord = (value: unknown): value is Record<string, unknown> => {
   return typeof value === "object" && value !== null && !Array.isArray(value);
@@ -100,6 +214,12 @@ const sanitizeIncomingMeta = (
     audio: sanitizeMedia(raw.audio),
     document: sanitizeMedia(raw.document),
     sticker: sanitizeMedia(raw.sticker),
+    location: parseInboundLocation(raw.location),
+    contacts: parseInboundContacts(raw.contacts),
+    reaction: parseInboundReaction(raw.reaction),
+    button: parseInboundButton(raw.button),
+    order: parseInboundOrder(raw.order),
+    flowResponse: parseInboundFlowResponse(raw.flowResponse),
   };
 };
 
@@ -125,7 +245,11 @@ const handleFlowRouteError = (
   }
 
   if (error instanceof FlowValidationError) {
-    res.status(error.status).json({ success: false, error: error.message });
+    res.status(error.status).json({
+      success: false,
+      error: error.message,
+      ...(error.details !== undefined ? { details: error.details } : {}),
+    });
     return;
   }
 
@@ -141,7 +265,11 @@ const handleFlowRouteError = (
   res.status(500).json({ success: false, error: "Failed to persist flow" });
 };
 
-app.post("/meta/webhook", async (req: Request, res: Response) => {
+const handleWebhookDelivery = async (
+  req: Request,
+  res: Response,
+  userId: string | null,
+) => {
   const payload = req.body as MetaWebhookPayload | undefined;
 
   if (!payload || typeof payload !== "object") {
@@ -149,14 +277,52 @@ app.post("/meta/webhook", async (req: Request, res: Response) => {
     return;
   }
 
+  // Unsigned bodies are never stored: rejections are only logged, with the
+  // request's audit data, so nobody can fill the archive or get a forged
+  // payload replayed later
+  try {
+    const verification = await verifyWebhookSignature({
+      rawBody: req.rawBody,
+      signature: req.get(WEBHOOK_SIGNATURE_HEADER),
+      payload,
+      userId,
+      audit: { ip: req.ip ?? null, userAgent: req.get("user-agent") ?? null },
+    });
+
+    if (!verification.valid) {
+      res.status(401).json({ error: "Invalid webhook signature" });
+      return;
+    }
+  } catch (error) {
+    console.error("Failed to verify webhook signature:", error);
+    res.status(500).json({ error: "Failed to verify webhook signature" });
+    return;
+  }
+
+  let archiveId: string | null = null;
+  try {
+    archiveId = (await archiveWebhookPayload(payload, { userId })).id;
+  } catch (error) {
+    console.error("Failed to archive webhook payload:", error);
+  }
+
   try {
-    await processWebhookEvent(payload);
+    // Ack immediately; the worker runs the flows outside Meta's timeout
+    await enqueueWebhookJob(payload, { userId, archiveId });
     res.sendStatus(200);
   } catch (error) {
-    console.error("Failed to process webhook event:", error);
-    res.status(500).json({ error: "Failed to process webhook event" });
+    console.error("Failed to enqueue webhook event:", error);
+    res.status(500).json({ error: "Failed to enqueue webhook event" });
   }
-});
+};
+
+app.post("/meta/webhook", (req: Request, res: Response) =>
+  handleWebhookDelivery(req, res, null),
+);
+
+app.post<{ userId: string }>("/meta/webhook/:userId", (req, res) =>
+  handleWebhookDelivery(req, res, req.params.userId),
+);
 
 app.get<{ flowId: string }, FlowSuccessResponse | FlowErrorResponse>(
   "/flows/:flowId",
@@ -302,6 +468,380 @@ app.post<
   },
 );
 
+const accountEventFields: readonly string[] = [
+  ...accountWebhookFields,
+  WEBHOOK_ERRORS_FIELD,
+];
+
+app.get<{ userId: string }>(
+  "/users/:userId/account-events",
+  requireAdminToken,
+  async (req, res) => {
+    const field = typeof req.query.field === "string" ? req.query.field : null;
+    const event = typeof req.query.event === "string" ? req.query.event : null;
+    const limit =
+      typeof req.query.limit === "string"
+        ? Number.parseInt(req.query.limit, 10)
+        : undefined;
+
+    if (field && !accountEventFields.includes(field)) {
+      res.status(400).json({
+        error: `Field "field" must be one of: ${accountEventFields.join(", ")}`,
+      });
+      return;
+    }
+
+    try {
+      const events = await listAccountEvents(req.params.userId, {
+        field,
+        event,
+        limit: Number.isFinite(limit) ? limit : undefined,
+      });
+      res.json({ events });
+    } catch (error) {
+      console.error("Failed to list account events:", error);
+      res.status(500).json({ error: "Failed to list account events" });
+    }
+  },
+);
+
+const sendOutboundTimeline = async (
+  req: Request<{ userId: string }>,
+  res: Response,
+  scope: { sessionId?: string; contactId?: string },
+) => {
+  const status = typeof req.query.status === "string" ? req.query.status : null;
+  const limit =
+    typeof req.query.limit === "string"
+      ? Number.parseInt(req.query.limit, 10)
+      : undefined;
+
+  try {
+    const messages = await listOutboundMessages(req.params.userId, {
+      ...scope,
+      status,
+      limit: Number.isFinite(limit) ? limit : undefined,
+    });
+    res.json({ messages });
+  } catch (error) {
+    console.error("Failed to list outbound messages:", error);
+    res.status(500).json({ error: "Failed to list outbound messages" });
+  }
+};
+
+app.get<{ userId: string; sessionId: string }>(
+  "/users/:userId/sessions/:sessionId/outbound-messages",
+  requireAdminToken,
+  (req, res) =>
+    sendOutboundTimeline(req, res, { sessionId: req.params.sessionId }),
+);
+
+app.get<{ userId: string; contactId: string }>(
+  "/users/:userId/contacts/:contactId",
+  requireAdminToken,
+  async (req, res) => {
+    try {
+      const contact = await getContactResource(
+        req.params.userId,
+        req.params.contactId,
+      );
+      if (!contact) {
+        res.status(404).json({ error: "Contact not found" });
+        return;
+      }
+      res.json({ contact });
+    } catch (error) {
+      console.error("Failed to retrieve contact:", error);
+      res.status(500).json({ error: "Failed to retrieve contact" });
+    }
+  },
+);
+
+app.get<{ userId: string; contactId: string }>(
+  "/users/:userId/contacts/:contactId/outbound-messages",
+  requireAdminToken,
+  (req, res) =>
+    sendOutboundTimeline(req, res, { contactId: req.params.contactId }),
+);
+
+app.post<{ userId: string }>(
+  "/users/:userId/media",
+  requireAdminToken,
+  // Room for the multipart envelope around the largest accepted file
+  express.raw({
+    type: "multipart/form-data",
+    limit: MEDIA_UPLOAD_MAX_BYTES + 1024 * 1024,
+  }),
+  async (req, res) => {
+    const contentType = req.get("content-type") ?? "";
+    const raw: unknown = req.body;
+    if (
+      !contentType.startsWith("multipart/form-data") ||
+      !Buffer.isBuffer(raw)
+    ) {
+      res.status(400).json({ error: "Expected a multipart/form-data upload" });
+      return;
+    }
+
+    let file: File | null = null;
+    let mediaType: string | null = null;
+    try {
+      // A view over the request buffer, not another copy of the upload
+      const body = new Uint8Array(
+        raw.buffer as ArrayBuffer,
+        raw.byteOffset,
+        raw.byteLength,
+      );
+      const form = await new globalThis.Response(body, {
+        headers: { "content-type": contentType },
+      }).formData();
+      const entry = form.get("file");
+      file = entry instanceof File ? entry : null;
+      const typeField = form.get("mediaType");
+      mediaType = typeof typeField === "string" ? typeField : null;
+    } catch {
+      res.status(400).json({ error: "Malformed multipart body" });
+      return;
+    }
+
+    if (!file) {
+      res.status(400).json({ error: 'Field "file" is required' });
+      return;
+    }
+
+    try {
+      const { asset, created } = await uploadMediaAsset(req.params.userId, {
+        data: Buffer.from(await file.arrayBuffer()),
+        mimeType: file.type || "application/octet-stream",
+        filename: file.name || null,
+        mediaType,
+      });
+      res.status(created ? 201 : 200).json({
+        media: toMediaAssetResource(asset),
+      });
+    } catch (error) {
+      if (error instanceof MediaError) {
+        res.status(error.status ?? 500).json({ error: error.message });
+        return;
+      }
+      console.error("Failed to upload media:", error);
+      res.status(500).json({ error: "Failed to upload media" });
+    }
+  },
+);
+
+app.get<{ userId: string; assetId: string }>(
+  "/users/:userId/media/:assetId",
+  requireAdminToken,
+  async (req, res) => {
+    try {
+      const asset = await getMediaAsset(req.params.userId, req.params.assetId);
+      if (!asset) {
+        res.status(404).json({ error: "Media not found" });
+        return;
+      }
+      res.json({ media: toMediaAssetResource(asset) });
+    } catch (error) {
+      console.error("Failed to retrieve media:", error);
+      res.status(500).json({ error: "Failed to retrieve media" });
+    }
+  },
+);
+
+app.get<{ userId: string; assetId: string }, unknown>(
+  "/users/:userId/media/:assetId/content",
+  requireAdminToken,
+  async (req, res) => {
+    try {
+      const asset = await getMediaAsset(req.params.userId, req.params.assetId);
+      const content = asset ? await readMediaAssetContent(asset) : null;
+      if (!asset || !content) {
+        res.status(404).json({ error: "Media not found" });
+        return;
+      }
+
+      const filename = asset.filename?.replace(/["\\\r\n]/g, "") || asset.id;
+      res.setHeader("Content-Type", asset.mimeType);
+      res.setHeader("Content-Length", content.length);
+      res.setHeader("Content-Disposition", `inline; filename="${filename}"`);
+      // Content-addressed: the bytes behind an asset id never change
+      res.setHeader("Cache-Control", "private, max-age=31536000, immutable");
+      res.setHeader("ETag", `"${asset.sha256}"`);
+      res.send(content);
+    } catch (error) {
+      console.error("Failed to serve media content:", error);
+      const status = error instanceof MediaError ? (error.status ?? 500) : 500;
+      res.status(status).json({ error: "Failed to serve media content" });
+    }
+  },
+);
+
+app.get(
+  "/admin/webhook-jobs",
+  requireAdminToken,
+  async (req: Request, res: Response) => {
+    const status =
+      typeof req.query.status === "string" ? req.query.status : null;
+    const userId =
+      typeof req.query.userId === "string" ? req.query.userId : null;
+    const limit =
+      typeof req.query.limit === "string"
+        ? Number.parseInt(req.query.limit, 10)
+        : undefined;
+
+    if (status && !(webhookJobStatuses as readonly string[]).includes(status)) {
+      res.status(400).json({
+        error: `Field "status" must be one of: ${webhookJobStatuses.join(", ")}`,
+      });
+      return;
+    }
+
+    try {
+      const [jobs, stats] = await Promise.all([
+        listWebhookJobs({
+          status,
+          userId,
+          limit: Number.isFinite(limit) ? limit : undefined,
+        }),
+        getWebhookQueueStats(),
+      ]);
+      res.json({ jobs, stats });
+    } catch (error) {
+      console.error("Failed to list webhook jobs:", error);
+      res.status(500).json({ error: "Failed to list webhook jobs" });
+    }
+  },
+);
+
+app.get<{ jobId: string }>(
+  "/admin/webhook-jobs/:jobId",
+  requireAdminToken,
+  async (req, res) => {
+    try {
+      const job = await getWebhookJob(req.params.jobId);
+      if (!job) {
+        res.status(404).json({ error: "Webhook job not found" });
+        return;
+      }
+      res.json({ job });
+    } catch (error) {
+      console.error("Failed to retrieve webhook job:", error);
+      res.status(500).json({ error: "Failed to retrieve webhook job" });
+    }
+  },
+);
+
+app.post<{ jobId: string }>(
+  "/admin/webhook-jobs/:jobId/retry",
+  requireAdminToken,
+  async (req, res) => {
+    try {
+      const job = await requeueWebhookJob(req.params.jobId);
+      if (!job) {
+        res
+          .status(409)
+          .json({ error: "Only dead-lettered webhook jobs can be retried" });
+        return;
+      }
+      res.json({ job });
+    } catch (error) {
+      console.error("Failed to requeue webhook job:", error);
+      res.status(500).json({ error: "Failed to requeue webhook job" });
+    }
+  },
+);
+
+app.get(
+  "/admin/webhooks",
+  requireAdminToken,
+  async (req: Request, res: Response) => {
+    const outcome =
+      typeof req.query.outcome === "string" ? req.query.outcome : null;
+    const userId =
+      typeof req.query.userId === "string" ? req.query.userId : null;
+    const limit =
+      typeof req.query.limit === "string"
+        ? Number.parseInt(req.query.limit, 10)
+        : undefined;
+
+    if (
+      outcome &&
+      !(webhookArchiveOutcomes as readonly string[]).includes(outcome)
+    ) {
+      res.status(400).json({
+        error: `Field "outcome" must be one of: ${webhookArchiveOutcomes.join(", ")}`,
+      });
+      return;
+    }
+
+    try {
+      const webhooks = await listWebhookArchive({
+        outcome,
+        userId,
+        limit: Number.isFinite(limit) ? limit : undefined,
+      });
+      res.json({ webhooks });
+    } catch (error) {
+      console.error("Failed to list archived webhooks:", error);
+      res.status(500).json({ error: "Failed to list archived webhooks" });
+    }
+  },
+);
+
+app.get<{ archiveId: string }>(
+  "/admin/webhooks/:archiveId",
+  requireAdminToken,
+  async (req, res) => {
+    try {
+      const webhook = await getWebhookArchive(req.params.archiveId);
+      if (!webhook) {
+        res.status(404).json({ error: "Archived webhook not found" });
+        return;
+      }
+      res.json({ webhook });
+    } catch (error) {
+      console.error("Failed to retrieve archived webhook:", error);
+      res.status(500).json({ error: "Failed to retrieve archived webhook" });
+    }
+  },
+);
+
+app.post<{ archiveId: string }, unknown, { dryRun?: unknown } | undefined>(
+  "/admin/webhooks/:archiveId/replay",
+  requireAdminToken,
+  async (req, res) => {
+    const dryRunRaw = req.body?.dryRun ?? req.query.dryRun;
+    const dryRun = dryRunRaw === true || dryRunRaw === "true";
+
+    try {
+      const result = await replayWebhookArchive(req.params.archiveId, {
+        dryRun,
+      });
+      if (!result) {
+        res.status(404).json({ error: "Archived webhook not found" });
+        return;
+      }
+      res.json(result);
+    } catch (error) {
+      if (error instanceof WebhookReplayError) {
+        res.status(error.status).json({ error: error.message });
+        return;
+      }
+      console.error("Failed to replay archived webhook:", error);
+      res.status(500).json({ error: "Failed to replay archived webhook" });
+    }
+  },
+);
+
+if (META_SANDBOX_ENABLED) {
+  registerMetaSandboxRoutes(app);
+} else if (
+  process.env.META_SANDBOX === "true" &&
+  process.env.NODE_ENV === "production"
+) {
+  console.warn("META_SANDBOX is ignored when NODE_ENV=production.");
+}
+
 // Generic error handler
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 app.use((error: unknown, _req: Request, res: Response, _next: NextFunction) => {
@@ -315,6 +855,10 @@ const listenPort = Number.isFinite(port) ? port : 3000;
 
 app.listen(listenPort, () => {
   console.log(`Server listening on port ${listenPort}`);
+  startInboundDedupCleanup();
+  startWebhookWorker();
+  startWebhookArchiveCleanup();
+  startFlowScheduler();
 });
 
 process.on("unhandledRejection", (reason) => {
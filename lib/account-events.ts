@@ -0,0 +1,381 @@
+import { createHash } from "node:crypto";
+import type { AccountEvent, Prisma } from "@prisma/client";
+
+import prisma from "./prisma";
+
+/** Webhook `field`s that describe the WhatsApp Business Account itself. */
+export const accountWebhookFields = [
+  "message_template_status_update",
+  "phone_number_quality_update",
+  "account_update",
+] as const;
+
+export type AccountWebhookField = (typeof accountWebhookFields)[number];
+
+/** Field used for the top-level `errors` array of a `messages` change. */
+export const WEBHOOK_ERRORS_FIELD = "errors";
+
+export const isAccountWebhookField = (
+  field: string | null | undefined,
+): field is AccountWebhookField =>
+  !!field && (accountWebhookFields as readonly string[]).includes(field);
+
+// Template states after which sends using the template fail
+const BLOCKING_TEMPLATE_EVENTS = new Set([
+  "REJECTED",
+  "PAUSED",
+  "DISABLED",
+  "PENDING_DELETION",
+  "FLAGGED",
+]);
+
+// Quality changes that lower how many customers the number may message
+const DEGRADING_QUALITY_EVENTS = new Set(["DOWNGRADE", "FLAGGED"]);
+
+// Account states that stop outbound messaging altogether
+const BLOCKING_ACCOUNT_EVENTS = new Set(["DISABLED_UPDATE", "BAN"]);
+const RESTRICTING_ACCOUNT_EVENTS = new Set([
+  "ACCOUNT_VIOLATION",
+  "ACCOUNT_RESTRICTION",
+]);
+
+// Broadcasts in these states are not sending and are left untouched
+const IDLE_BROADCAST_STATUSES = [
+  "Draft",
+  "Paused",
+  "Completed",
+  "Failed",
+  "Cancelled",
+];
+
+type AccountEventActions = {
+  pausedFlowIds: string[];
+  pausedBroadcastIds: string[];
+};
+
+export type AccountEventResource = {
+  id: string;
+  userId: string;
+  field: string;
+  event: string | null;
+  subject: string | null;
+  payload: unknown;
+  actions: AccountEventActions | null;
+  receivedAt: string;
+};
+
+type AccountEventFilters = {
+  field?: string | null;
+  event?: string | null;
+  limit?: number;
+};
+
+const asRecord = (value: unknown): Record<string, unknown> =>
+  value && typeof value === "object" && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+
+const pickString = (
+  source: Record<string, unknown>,
+  ...keys: string[]
+): string | null => {
+  for (const key of keys) {
+    const value = source[key];
+    if (typeof value === "string" && value.trim()) return value.trim();
+    if (typeof value === "number" && Number.isFinite(value)) {
+      return String(value);
+    }
+  }
+  return null;
+};
+
+const toIso = (value: Date | string | undefined) => {
+  if (!value) return new Date().toISOString();
+  const date = value instanceof Date ? value : new Date(value);
+  return Number.isNaN(date.getTime())
+    ? new Date().toISOString()
+    : date.toISOString();
+};
+
+export const toAccountEventResource = (
+  event: AccountEvent,
+): AccountEventResource => ({
+  id: event.id,
+  userId: event.userId,
+  field: event.field,
+  event: event.event ?? null,
+  subject: event.subject ?? null,
+  payload: event.payload ?? null,
+  actions: (event.actions as AccountEventActions | null) ?? null,
+  receivedAt: toIso(event.receivedAt),
+});
+
+const flowUsesTemplate = (definition: unknown, templateName: string) => {
+  const nodes = Array.isArray(asRecord(definition).nodes)
+    ? (asRecord(definition).nodes as unknown[])
+    : [];
+  const target = templateName.trim().toLowerCase();
+  return nodes.some((node) => {
+    const data = asRecord(asRecord(node).data);
+    return (
+      data.useTemplate === true &&
+      typeof data.templateName === "string" &&
+      data.templateName.trim().toLowerCase() === target
+    );
+  });
+};
+
+async function pauseFlowsUsingTemplate(
+  userId: string,
+  templateName: string,
+): Promise<string[]> {
+  const flows = (await prisma.flow.findMany({
+    where: { userId, status: "Active" },
+    select: { id: true, definition: true },
+  })) as Array<{ id: string; definition: unknown }>;
+
+  const affected = flows
+    .filter((flow) => flowUsesTemplate(flow.definition, templateName))
+    .map((flow) => flow.id);
+
+  if (affected.length) {
+    await prisma.flow.updateMany({
+      where: { id: { in: affected } },
+      data: { status: "Paused" },
+    });
+  }
+
+  return affected;
+}
+
+async function pauseActiveFlows(userId: string): Promise<string[]> {
+  const flows = (await prisma.flow.findMany({
+    where: { userId, status: "Active" },
+    select: { id: true },
+  })) as Array<{ id: string }>;
+
+  const ids = flows.map((flow) => flow.id);
+  if (ids.length) {
+    await prisma.flow.updateMany({
+      where: { id: { in: ids } },
+      data: { status: "Paused" },
+    });
+  }
+  return ids;
+}
+
+async function pauseSendingBroadcasts(
+  userId: string,
+  flowIds?: string[],
+): Promise<string[]> {
+  if (flowIds && !flowIds.length) {
+    return [];
+  }
+
+  const where: Record<string, unknown> = {
+    userId,
+    status: { notIn: IDLE_BROADCAST_STATUSES },
+  };
+  if (flowIds) {
+    where.flowId = { in: flowIds };
+  }
+
+  const broadcasts = (await prisma.broadcast.findMany({
+    where,
+    select: { id: true },
+  })) as Array<{ id: string }>;
+
+  const ids = broadcasts.map((broadcast) => broadcast.id);
+  if (ids.length) {
+    await prisma.broadcast.updateMany({
+      where: { id: { in: ids } },
+      data: { status: "Paused" },
+    });
+  }
+  return ids;
+}
+
+/**
+ * Decides which flows and broadcasts an account-level event should pause and
+ * applies it. Returns `null` when the event has no operational consequence.
+ */
+async function applyAccountEventConsequences(
+  userId: string,
+  field: string,
+  event: string | null,
+  value: Record<string, unknown>,
+): Promise<AccountEventActions | null> {
+  const normalizedEvent = event?.toUpperCase() ?? "";
+
+  if (
+    field === "message_template_status_update" &&
+    BLOCKING_TEMPLATE_EVENTS.has(normalizedEvent)
+  ) {
+    const templateName = pickString(value, "message_template_name");
+    if (!templateName) return null;
+    const pausedFlowIds = await pauseFlowsUsingTemplate(userId, templateName);
+    const pausedBroadcastIds = await pauseSendingBroadcasts(
+      userId,
+      pausedFlowIds,
+    );
+    return { pausedFlowIds, pausedBroadcastIds };
+  }
+
+  if (
+    field === "phone_number_quality_update" &&
+    DEGRADING_QUALITY_EVENTS.has(normalizedEvent)
+  ) {
+    // Conversational flows keep running; bulk sends wait for review
+    const pausedBroadcastIds = await pauseSendingBroadcasts(userId);
+    return { pausedFlowIds: [], pausedBroadcastIds };
+  }
+
+  if (field === "account_update") {
+    if (BLOCKING_ACCOUNT_EVENTS.has(normalizedEvent)) {
+      const pausedFlowIds = await pauseActiveFlows(userId);
+      const pausedBroadcastIds = await pauseSendingBroadcasts(userId);
+      return { pausedFlowIds, pausedBroadcastIds };
+    }
+    if (RESTRICTING_ACCOUNT_EVENTS.has(normalizedEvent)) {
+      const pausedBroadcastIds = await pauseSendingBroadcasts(userId);
+      return { pausedFlowIds: [], pausedBroadcastIds };
+    }
+  }
+
+  return null;
+}
+
+const describeSubject = (field: string, value: Record<string, unknown>) => {
+  switch (field) {
+    case "message_template_status_update":
+      return pickString(value, "message_template_name", "message_template_id");
+    case "phone_number_quality_update":
+      return pickString(value, "display_phone_number");
+    case "account_update":
+      return pickString(value, "phone_number", "waba_info");
+    default:
+      return null;
+  }
+};
+
+const isPrismaError = (value: unknown, code: string) =>
+  typeof value === "object" &&
+  value !== null &&
+  "code" in value &&
+  (value as { code?: unknown }).code === code;
+
+/** Where a change came from in the webhook payload. */
+export type AccountEventSource = {
+  /** `entry.id`: the WhatsApp Business Account. */
+  entryId?: string | null;
+  /** `entry.time`, in seconds. */
+  entryTime?: number | null;
+};
+
+// Same tenant, entry, field and value: a redelivery or a retried job. Without
+// the entry time two real events could look alike, so those get no key.
+const accountEventDedupKey = (
+  userId: string,
+  field: string,
+  value: Record<string, unknown> | null,
+  source: AccountEventSource,
+) =>
+  typeof source.entryTime === "number"
+    ? createHash("sha256")
+        .update(
+          [
+            userId,
+            source.entryId ?? "",
+            source.entryTime,
+            field,
+            JSON.stringify(value),
+          ].join("|"),
+        )
+        .digest("hex")
+    : null;
+
+/**
+ * Persists an account-level webhook change for the tenant and pauses the
+ * flows or broadcasts it affects. A change already recorded is returned as
+ * is, so processing the same payload twice has no further effect.
+ */
+export async function recordAccountWebhookChange(
+  userId: string,
+  field: string,
+  rawValue: unknown,
+  source: AccountEventSource = {},
+): Promise<AccountEvent> {
+  const value = asRecord(rawValue);
+  const dedupKey = accountEventDedupKey(userId, field, value, source);
+  if (dedupKey) {
+    const existing = (await prisma.accountEvent.findUnique({
+      where: { dedupKey },
+    })) as AccountEvent | null;
+    if (existing) return existing;
+  }
+
+  const event =
+    field === WEBHOOK_ERRORS_FIELD
+      ? pickString(value, "code")
+      : pickString(value, "event", "current_limit");
+
+  let actions: AccountEventActions | null = null;
+  try {
+    actions = await applyAccountEventConsequences(userId, field, event, value);
+  } catch (error) {
+    console.error(
+      `Failed to apply consequences of ${field} event for user ${userId}:`,
+      error,
+    );
+  }
+
+  if (
+    actions &&
+    (actions.pausedFlowIds.length || actions.pausedBroadcastIds.length)
+  ) {
+    console.warn(
+      `Account event ${field}/${event ?? "unknown"} paused flows [${actions.pausedFlowIds.join(", ")}] and broadcasts [${actions.pausedBroadcastIds.join(", ")}] for user ${userId}.`,
+    );
+  }
+
+  try {
+    return await prisma.accountEvent.create({
+      data: {
+        userId,
+        field,
+        event,
+        subject: describeSubject(field, value),
+        payload: value as Prisma.InputJsonValue,
+        actions: (actions ?? undefined) as Prisma.InputJsonValue | undefined,
+        dedupKey,
+      },
+    });
+  } catch (error) {
+    // Another worker recorded the same change first
+    if (dedupKey && isPrismaError(error, "P2002")) {
+      const existing = (await prisma.accountEvent.findUnique({
+        where: { dedupKey },
+      })) as AccountEvent | null;
+      if (existing) return existing;
+    }
+    throw error;
+  }
+}
+
+export async function listAccountEvents(
+  userId: string,
+  filters: AccountEventFilters = {},
+): Promise<AccountEventResource[]> {
+  const where: Record<string, unknown> = { userId };
+  if (filters.field) where.field = filters.field;
+  if (filters.event) where.event = filters.event;
+
+  const limit = Math.min(Math.max(filters.limit ?? 50, 1), 200);
+  const events = (await prisma.accountEvent.findMany({
+    where,
+    orderBy: { receivedAt: "desc" },
+    take: limit,
+  })) as AccountEvent[];
+
+  return events.map(toAccountEventResource);
+}
@@ -0,0 +1,39 @@
+/**
+ * Per-contact mailbox: tasks sharing a key run one after another in arrival
+ * order, while tasks for different keys run concurrently. This keeps two
+ * messages from the same customer from loading and overwriting the same
+ * `Session` row at the same time.
+ *
+ * Ordering is guaranteed within this process; the webhook worker runs inside
+ * it, so every inbound message and manual trigger goes through here.
+ */
+const tails = new Map<string, Promise<void>>();
+
+export const contactMailboxKey = (userId: string, phone: string) =>
+  `${userId}:${phone.replace(/[^0-9]/g, "") || phone.trim()}`;
+
+export async function runExclusive<T>(
+  key: string,
+  task: () => Promise<T>,
+): Promise<T> {
+  const previous = tails.get(key) ?? Promise.resolve();
+
+  let release!: () => void;
+  const current = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+  const tail = previous.then(() => current);
+  tails.set(key, tail);
+
+  try {
+    await previous;
+    return await task();
+  } finally {
+    release();
+    if (tails.get(key) === tail) {
+      tails.delete(key);
+    }
+  }
+}
+
+export const getContactMailboxStats = () => ({ activeContacts: tails.size });
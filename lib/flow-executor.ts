@@ -7,19 +7,39 @@ import {
   ConditionDataSchema,
   DelayDataSchema,
   EndDataSchema,
+  FallbackTemplateSchema,
   type FlowEdgePayload,
   type FlowNodePayload,
   GoToDataSchema,
   HandoffDataSchema,
+  InactivitySchema,
   MediaDataSchema,
   MessageDataSchema,
   TemplateParameterSchema,
   OptionsDataSchema,
+  QuestionDataSchema,
   TriggerDataSchema,
+  WhatsAppFlowDataSchema,
   sanitizeFlowDefinition,
+  waMaxReplyButtons,
 } from "./flow-schema";
+import { evaluateFlowCondition } from "./flow-expression";
+import {
+  DEFAULT_QUESTION_RETRY_TEXT,
+  validateQuestionAnswer,
+} from "./flow-question";
 import prisma from "./prisma";
-import type { SendMessageResult } from "./meta";
+import type { SendMessageResult, TemplateComponentParameter } from "./meta";
+import { isServiceWindowClosedFailure } from "./service-window";
+import type { MediaAssetResource } from "./media";
+import type {
+  InboundButton,
+  InboundFlowResponse,
+  InboundLocation,
+  InboundOrder,
+  InboundReaction,
+  InboundSharedContact,
+} from "./inbound-message";
 
 export class FlowSendMessageError extends Error {
   status?: number;
@@ -35,7 +55,10 @@ export class FlowSendMessageError extends Error {
 type TriggerData = z.infer<typeof TriggerDataSchema>;
 type MessageData = z.infer<typeof MessageDataSchema>;
 type TemplateParameterData = z.infer<typeof TemplateParameterSchema>;
+type FallbackTemplateData = z.infer<typeof FallbackTemplateSchema>;
 type OptionsData = z.infer<typeof OptionsDataSchema>;
+type QuestionData = z.infer<typeof QuestionDataSchema>;
+type InactivityData = z.infer<typeof InactivitySchema>;
 type DelayData = z.infer<typeof DelayDataSchema>;
 type ConditionData = z.infer<typeof ConditionDataSchema>;
 type APICallData = z.infer<typeof APICallDataSchema>;
@@ -44,23 +67,49 @@ type MediaData = z.infer<typeof MediaDataSchema>;
 type HandoffData = z.infer<typeof HandoffDataSchema>;
 type EndData = z.infer<typeof EndDataSchema>;
 type GoToData = z.infer<typeof GoToDataSchema>;
+type WhatsAppFlowData = z.infer<typeof WhatsAppFlowDataSchema>;
 
 // Define a more specific Node type
 type FlowNode = FlowNodePayload & { data: unknown };
 
 type FlowEdge = FlowEdgePayload;
 
+/** Lets the sender attribute the message to the session that produced it. */
+export type OutboundSendContext = {
+  sessionId?: string | null;
+  contactId?: string | null;
+  /** Inbound message to quote (`context.message_id`). */
+  replyTo?: string | null;
+};
+
+/** Filled in while the run goes, so the caller can tell what it did. */
+export type FlowRunStats = {
+  /** Messages Meta accepted during the run. */
+  sent: number;
+};
+
+export type ExecuteFlowOptions = {
+  /**
+   * Dry-run replays: the session row and logs are left untouched, so nothing
+   * the run does (including a pause with `wakeAt`) outlives it.
+   */
+  dryRun?: boolean;
+  stats?: FlowRunStats;
+};
+
 type SendMessage = (
   userId: string,
   to: string,
   message:
     | { type: "text"; text: string }
+    | { type: "read"; messageId: string; typing?: boolean }
     | {
         type: "media";
         mediaType: "image" | "video" | "audio" | "document";
         id?: string;
         url?: string;
         caption?: string;
+        assetId?: string;
       }
     | { type: "options"; text: string; options: string[] }
     | {
@@ -69,7 +118,7 @@ type SendMessage = (
         button: string;
         sections: Array<{
           title: string;
-          rows: Array<{ id: string; title: string }>;
+          rows: Array<{ id: string; title: string; description?: string }>;
         }>;
       }
     | {
@@ -94,13 +143,16 @@ type SendMessage = (
             type: string;
             subType?: string | null;
             index?: number | null;
-            parameters?: Array<{ type: "text"; text: string }>;
+            parameters?: TemplateComponentParameter[];
           }>;
         };
       },
+  context?: OutboundSendContext,
 ) => Promise<SendMessageResult>;
 
 type IncomingMessageMeta = {
+  /** WhatsApp id of the inbound message, used for read receipts and quotes. */
+  messageId?: string | null;
   type?: string | null;
   rawText?: string | null;
   interactive?: {
@@ -113,6 +165,13 @@ type IncomingMessageMeta = {
   audio?: Record<string, unknown> | null;
   document?: Record<string, unknown> | null;
   sticker?: Record<string, unknown> | null;
+  media?: MediaAssetResource | null;
+  location?: InboundLocation | null;
+  contacts?: InboundSharedContact[] | null;
+  reaction?: InboundReaction | null;
+  button?: InboundButton | null;
+  order?: InboundOrder | null;
+  flowResponse?: InboundFlowResponse | null;
 };
 
 type InboundPayload = {
@@ -129,6 +188,13 @@ type InboundPayload = {
   audio?: Record<string, unknown> | null;
   document?: Record<string, unknown> | null;
   sticker?: Record<string, unknown> | null;
+  media?: MediaAssetResource | null;
+  location?: InboundLocation | null;
+  contacts?: InboundSharedContact[] | null;
+  reaction?: InboundReaction | null;
+  button?: InboundButton | null;
+  order?: InboundOrder | null;
+  flowResponse?: InboundFlowResponse | null;
 };
 
 type FlowHistoryEntry = {
@@ -142,6 +208,33 @@ type FlowContextMeta = {
   history: FlowHistoryEntry[];
 };
 
+type PendingWhatsappFlow = {
+  nodeId: string;
+  sentAt: string;
+  expiresAt: string | null;
+};
+
+type PendingQuestion = {
+  nodeId: string;
+  /** Invalid answers received so far. */
+  attempts: number;
+};
+
+/** Where a run stopped after it had already sent messages. */
+type RetryCheckpoint = {
+  /** Inbound message whose retry picks the run up again. */
+  messageId: string;
+  nodeId: string;
+};
+
+type PendingInactivity = {
+  nodeId: string;
+  pausedAt: string;
+  remindAt: string | null;
+  expiresAt: string | null;
+  reminded: boolean;
+};
+
 type InputHistoryEntry = {
   text: string;
   timestamp: string;
@@ -176,14 +269,40 @@ type FlowRuntimeContext = {
   lastInputTrimmed?: string;
   lastInputNormalized?: string;
   lastUserMedia?: Record<string, unknown> | null;
+  lastUserLocation?: InboundLocation | null;
+  lastUserContacts?: InboundSharedContact[] | null;
+  lastReaction?: InboundReaction | null;
+  lastButtonText?: string | null;
+  lastButtonPayload?: string | null;
+  lastOrder?: InboundOrder | null;
+  lastFlowResponse?: InboundFlowResponse | null;
+  pendingWhatsappFlow?: PendingWhatsappFlow | null;
+  pendingQuestion?: PendingQuestion | null;
+  pendingInactivity?: PendingInactivity | null;
+  retryCheckpoint?: RetryCheckpoint | null;
+  lastQuestionError?: string | null;
   triggerMessage?: string;
   handoffQueue?: string;
   handoffNote?: string;
   endReason?: string;
+  lastError?: string;
 };
 
 const DEFAULT_TRIGGER_KEYWORD = "default";
 
+const parsePositiveInt = (raw: string | undefined, fallback: number) => {
+  const parsed = Number.parseInt(raw ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+// Loop guards; flows can override both in `settings`, nodes via `maxVisits`
+const DEFAULT_MAX_STEPS = parsePositiveInt(process.env.FLOW_MAX_STEPS, 500);
+const DEFAULT_MAX_NODE_VISITS = parsePositiveInt(
+  process.env.FLOW_MAX_NODE_VISITS,
+  10,
+);
+const LOOP_PATH_PREVIEW = 12;
+
 const stripDiacritics = (value: string) =>
   value.normalize("NFD").replace(/[\u0300-\u036f]/g, "");
 
@@ -218,7 +337,7 @@ type TemplateMessageComponent = {
   type: string;
   subType?: string;
   index?: number;
-  parameters: Array<{ type: "text"; text: string }>;
+  parameters: TemplateComponentParameter[];
 };
 
 const normalizeTemplateComponentType = (value?: string | null) => {
@@ -227,6 +346,86 @@ const normalizeTemplateComponentType = (value?: string | null) => {
   return base.toLowerCase();
 };
 
+const parseTemplateNumber = (value: string, field: string) => {
+  const parsed = Number(value.trim().replace(/,/g, ""));
+  if (!value.trim() || !Number.isFinite(parsed)) {
+    throw new FlowSendMessageError(
+      `Template ${field} "${value}" is not a number`,
+      400,
+    );
+  }
+  return parsed;
+};
+
+/** Interpolates a node's template parameter into the Graph API shape. */
+const resolveTemplateParameter = (
+  param: TemplateParameterData,
+  tplFn: (value?: string) => string,
+): TemplateComponentParameter => {
+  const value = tplFn(param.value ?? "");
+  const media = () => {
+    const id = tplFn(param.mediaId ?? "").trim();
+    const link = tplFn(param.mediaUrl ?? "").trim();
+    return id ? { id } : { link };
+  };
+
+  switch (param.type ?? "text") {
+    case "currency":
+      return {
+        type: "currency",
+        currency: {
+          fallback_value: value,
+          code: tplFn(param.currencyCode ?? "")
+            .trim()
+            .toUpperCase(),
+          amount_1000: Math.round(
+            parseTemplateNumber(tplFn(param.amount ?? ""), "amount") * 1000,
+          ),
+        },
+      };
+    case "date_time":
+      return { type: "date_time", date_time: { fallback_value: value } };
+    case "image":
+      return { type: "image", image: media() };
+    case "video":
+      return { type: "video", video: media() };
+    case "document": {
+      const filename = tplFn(param.filename ?? "").trim();
+      return {
+        type: "document",
+        document: { ...media(), ...(filename ? { filename } : {}) },
+      };
+    }
+    case "location": {
+      const name = tplFn(param.locationName ?? "").trim();
+      const address = tplFn(param.address ?? "").trim();
+      return {
+        type: "location",
+        location: {
+          latitude: parseTemplateNumber(
+            tplFn(param.latitude ?? ""),
+            "latitude",
+          ),
+          longitude: parseTemplateNumber(
+            tplFn(param.longitude ?? ""),
+            "longitude",
+          ),
+          ...(name ? { name } : {}),
+          ...(address ? { address } : {}),
+        },
+      };
+    }
+    case "payload":
+      return { type: "payload", payload: value };
+    case "coupon_code":
+      return { type: "coupon_code", coupon_code: value };
+    case "action":
+      return { type: "action", action: { flow_token: value } };
+    default:
+      return { type: "text", text: value };
+  }
+};
+
 const buildTemplateMessageComponents = (
   params: TemplateParameterData[],
   tplFn: (value?: string) => string,
@@ -234,6 +433,17 @@ const buildTemplateMessageComponents = (
   const grouped = new Map<string, TemplateMessageComponent>();
 
   params.forEach((param) => {
+    // Node data is not validated on save; reject misconfigured parameters
+    // here instead of letting Meta fail the whole template
+    const checked = TemplateParameterSchema.safeParse(param);
+    if (!checked.success) {
+      const issue = checked.error.issues[0];
+      throw new FlowSendMessageError(
+        `Invalid template parameter${issue.path.length ? ` "${issue.path.join(".")}"` : ""}: ${issue.message}`,
+        400,
+      );
+    }
+
     const type = normalizeTemplateComponentType(param.component);
     const subType = (param.subType ?? "").trim();
     const index =
@@ -257,20 +467,73 @@ const buildTemplateMessageComponents = (
     }
 
     const component = grouped.get(key)!;
-    const resolved = tplFn(param.value ?? "");
-    component.parameters.push({ type: "text", text: resolved });
+    component.parameters.push(resolveTemplateParameter(checked.data, tplFn));
   });
 
-  return Array.from(grouped.values()).map((component) => ({
-    ...component,
-    parameters: component.parameters.map((parameter) => ({
-      type: parameter.type,
-      text: parameter.text,
-    })),
-  }));
+  return Array.from(grouped.values());
+};
+
+const LIST_ROW_TITLE_LIMIT = 24;
+const DEFAULT_LIST_BUTTON = "View options";
+
+type OptionListSection = {
+  title: string;
+  rows: Array<{ id: string; title: string; description?: string }>;
 };
 
-// This function is now stateful and operates on a session
+/**
+ * Lays out an options node as list sections. Row ids are `opt-{index}`, the
+ * same ids the resume step already maps back to the option's edge.
+ */
+const buildOptionListSections = (
+  data: Partial<OptionsData>,
+  options: string[],
+): OptionListSection[] => {
+  const toRow = (index: number) => {
+    const option = options[index];
+    const description = (data.descriptions?.[index] ?? "").trim();
+    const truncated = option.length > LIST_ROW_TITLE_LIMIT;
+    return {
+      id: `opt-${index}`,
+      title: truncated
+        ? `${option.slice(0, LIST_ROW_TITLE_LIMIT - 1)}…`
+        : option,
+      // Show the full option when the row title had to be cut
+      ...(description || truncated
+        ? { description: description || option }
+        : {}),
+    };
+  };
+
+  const assigned = new Set<number>();
+  const sections: OptionListSection[] = [];
+  for (const section of data.sections ?? []) {
+    const indexes = (section.options ?? []).filter(
+      (index) => index < options.length && !assigned.has(index),
+    );
+    indexes.forEach((index) => assigned.add(index));
+    if (indexes.length) {
+      sections.push({ title: section.title, rows: indexes.map(toRow) });
+    }
+  }
+
+  const remaining = options
+    .map((_option, index) => index)
+    .filter((index) => !assigned.has(index));
+  if (remaining.length) {
+    sections.push({
+      // Titles are mandatory once there is more than one section
+      title: sections.length ? "More" : "",
+      rows: remaining.map(toRow),
+    });
+  }
+
+  return sections;
+};
+
+// This function is now stateful and operates on a session. The scheduler
+// calls it with neither text nor meta to wake a session paused on a delay or
+// to enforce an inactivity deadline.
 export async function executeFlow(
   session: Session & {
     flow: {
@@ -286,10 +549,11 @@ export async function executeFlow(
   messageText: string | null,
   sendMessage: SendMessage,
   incomingMeta: IncomingMessageMeta | null = null,
+  options: ExecuteFlowOptions = {},
 ) {
-  const SAFE_MAX_STEPS = 500;
-  const MAX_DELAY_MS = 60_000; // cap delays to 60s/server safety
   const API_TIMEOUT_MS = 15_000;
+  const dryRun = options.dryRun ?? false;
+  const stats = options.stats ?? { sent: 0 };
 
   const flow = sanitizeFlowDefinition(session.flow.definition);
   const nodes: FlowNode[] = flow.nodes.map((node) => ({
@@ -298,20 +562,43 @@ export async function executeFlow(
   }));
   const edges: FlowEdge[] = flow.edges;
 
-  let inboundPayload: InboundPayload | null = {
-    text: messageText ?? "",
-    type: incomingMeta?.type ?? "text",
-    raw: incomingMeta?.rawText ?? messageText,
-    interactiveId: incomingMeta?.interactive?.id ?? null,
-    interactiveType: incomingMeta?.interactive?.type ?? null,
-    interactiveTitle: incomingMeta?.interactive?.title ?? null,
-    image: incomingMeta?.image ?? null,
-    video: incomingMeta?.video ?? null,
-    audio: incomingMeta?.audio ?? null,
-    document: incomingMeta?.document ?? null,
-    sticker: incomingMeta?.sticker ?? null,
+  const outboundContext: OutboundSendContext = {
+    sessionId: session.id,
+    contactId: session.contactId,
   };
 
+  const inboundMessageId = incomingMeta?.messageId?.trim() || null;
+
+  const replyContext = (quote?: boolean): OutboundSendContext =>
+    quote && inboundMessageId
+      ? { ...outboundContext, replyTo: inboundMessageId }
+      : outboundContext;
+
+  const isWakeUp = messageText === null && !incomingMeta;
+
+  let inboundPayload: InboundPayload | null = isWakeUp
+    ? null
+    : {
+        text: messageText ?? "",
+        type: incomingMeta?.type ?? "text",
+        raw: incomingMeta?.rawText ?? messageText,
+        interactiveId: incomingMeta?.interactive?.id ?? null,
+        interactiveType: incomingMeta?.interactive?.type ?? null,
+        interactiveTitle: incomingMeta?.interactive?.title ?? null,
+        image: incomingMeta?.image ?? null,
+        video: incomingMeta?.video ?? null,
+        audio: incomingMeta?.audio ?? null,
+        document: incomingMeta?.document ?? null,
+        sticker: incomingMeta?.sticker ?? null,
+        media: incomingMeta?.media ?? null,
+        location: incomingMeta?.location ?? null,
+        contacts: incomingMeta?.contacts ?? null,
+        reaction: incomingMeta?.reaction ?? null,
+        button: incomingMeta?.button ?? null,
+        order: incomingMeta?.order ?? null,
+        flowResponse: incomingMeta?.flowResponse ?? null,
+      };
+
   // Fast indices
   const nodeById = new Map(nodes.map((n) => [n.id, n]));
   const outgoingBySource = new Map<string, FlowEdge[]>();
@@ -388,6 +675,24 @@ export async function executeFlow(
     if (payload.sticker !== undefined) {
       historyPayload.sticker = payload.sticker;
     }
+    if (payload.location) {
+      historyPayload.location = payload.location;
+    }
+    if (payload.contacts) {
+      historyPayload.contacts = payload.contacts;
+    }
+    if (payload.reaction) {
+      historyPayload.reaction = payload.reaction;
+    }
+    if (payload.button) {
+      historyPayload.button = payload.button;
+    }
+    if (payload.order) {
+      historyPayload.order = payload.order;
+    }
+    if (payload.flowResponse) {
+      historyPayload.flowResponse = payload.flowResponse;
+    }
 
     pushHistory({
       direction: "in",
@@ -437,10 +742,36 @@ export async function executeFlow(
     if (payload.sticker) {
       mediaPayload.sticker = payload.sticker;
     }
+    if (payload.media) {
+      // Meta media ids expire; `asset.url` stays resolvable for later nodes
+      mediaPayload.asset = payload.media;
+    }
     context.lastUserMedia = Object.keys(mediaPayload).length
       ? mediaPayload
       : null;
 
+    // Structured payloads stay in context until replaced so later nodes can
+    // branch on them (e.g. `context.lastUserLocation.latitude`).
+    if (payload.location) {
+      context.lastUserLocation = payload.location;
+    }
+    if (payload.contacts) {
+      context.lastUserContacts = payload.contacts;
+    }
+    if (payload.reaction) {
+      context.lastReaction = payload.reaction;
+    }
+    if (payload.button) {
+      context.lastButtonText = payload.button.text;
+      context.lastButtonPayload = payload.button.payload;
+    }
+    if (payload.order) {
+      context.lastOrder = payload.order;
+    }
+    if (payload.flowResponse) {
+      context.lastFlowResponse = payload.flowResponse;
+    }
+
     if (payload.optionIndex !== undefined) {
       context.lastSelectedOptionIndex = payload.optionIndex;
     } else if (payload.matchedOption === null) {
@@ -474,6 +805,7 @@ export async function executeFlow(
     type: "text" | "media" | "options" | "flow" | "template",
     payload: Record<string, unknown>,
   ) => {
+    stats.sent++;
     const ts = nowIso();
     const historyPayload: Record<string, unknown> = {};
     const textValue = payload["text"];
@@ -535,6 +867,9 @@ export async function executeFlow(
       if (payload["components"]) {
         historyPayload.components = payload["components"];
       }
+      if (payload["fallbackFor"]) {
+        historyPayload.fallbackFor = payload["fallbackFor"];
+      }
     }
 
     pushHistory({
@@ -603,17 +938,114 @@ export async function executeFlow(
       return v == null ? "" : String(v);
     });
 
-  const safeEvalBool = (expr: string, ctx: Record<string, unknown>) => {
-    // Basic sanitization—reject clearly unsafe tokens
-    if (
-      /[;{}]|process|global|window|document|require|import|\beval\b/g.test(expr)
-    ) {
-      throw new Error("Unsafe expression");
+  /**
+   * Sends the node's fallback template when a free-form send was refused
+   * because the customer service window closed. Returns `false` when there
+   * is nothing to fall back to, so the caller reports the original failure.
+   */
+  const sendFallbackTemplate = async (
+    failed: SendMessageResult,
+    fallback: FallbackTemplateData | undefined,
+    replacing: "text" | "media" | "options",
+  ): Promise<boolean> => {
+    const name = fallback?.name?.trim();
+    const language = fallback?.language?.trim();
+    if (!name || !language || !isServiceWindowClosedFailure(failed)) {
+      return false;
+    }
+
+    const params = Array.isArray(fallback?.parameters)
+      ? fallback.parameters
+      : [];
+    const components = buildTemplateMessageComponents(params, tpl);
+    const sendResult = await sendMessage(
+      session.flow.userId,
+      session.contact.phone,
+      {
+        type: "template",
+        template: {
+          name,
+          language,
+          ...(components.length ? { components } : {}),
+        },
+      },
+      outboundContext,
+    );
+
+    if (!sendResult?.success) {
+      console.error(
+        "Failed to send fallback template to",
+        session.contact.phone,
+        sendResult?.error ?? "",
+      );
+      const message = sendResult?.error?.trim().length
+        ? sendResult.error
+        : "Failed to send WhatsApp fallback template";
+      throw new FlowSendMessageError(message, sendResult?.status);
+    }
+
+    recordOutbound("template", {
+      template: { name, language },
+      components,
+      fallbackFor: replacing,
+    });
+    return true;
+  };
+
+  const sendQuestionText = async (text: string, data: QuestionData) => {
+    const sendResult = await sendMessage(
+      session.flow.userId,
+      session.contact.phone,
+      { type: "text", text },
+      replyContext(data.quoteReply),
+    );
+    if (sendResult?.success) {
+      recordOutbound("text", { text });
+      return;
+    }
+    if (await sendFallbackTemplate(sendResult, data.fallbackTemplate, "text")) {
+      return;
+    }
+    console.error(
+      "Failed to send question to",
+      session.contact.phone,
+      sendResult?.error ?? "",
+    );
+    const message = sendResult?.error?.trim().length
+      ? sendResult.error
+      : "Failed to send WhatsApp question";
+    throw new FlowSendMessageError(message, sendResult?.status);
+  };
+
+  // Read receipts are cosmetic: failures are logged and the flow goes on
+  const markInboundRead = async (typing: boolean) => {
+    if (!inboundMessageId) return;
+    try {
+      const result = await sendMessage(
+        session.flow.userId,
+        session.contact.phone,
+        { type: "read", messageId: inboundMessageId, typing },
+        outboundContext,
+      );
+      if (!result?.success) {
+        console.warn(
+          `Failed to mark message ${inboundMessageId} as read:`,
+          result?.error ?? "",
+        );
+      }
+    } catch (error) {
+      console.warn(
+        `Failed to mark message ${inboundMessageId} as read:`,
+        error,
+      );
     }
-    const fn = new Function("context", `return !!(${expr})`);
-    return !!fn(ctx);
   };
 
+  // The typing indicator also marks the message read, so it follows the
+  // flow's read-receipt setting
+  const showTyping = (data: { showTyping?: boolean }) =>
+    data.showTyping !== false && !!flow.settings?.readReceipts;
+
   const chooseFirstEdge = (sourceId: string) =>
     (outgoingBySource.get(sourceId) ?? [])[0];
 
@@ -631,16 +1063,20 @@ export async function executeFlow(
     status?: Session["status"];
     currentNodeId?: string | null;
     context?: FlowRuntimeContext | null;
+    /** Next scheduler wake-up while paused; any status change clears it. */
+    wakeAt?: Date | null;
   };
 
   const updateSession = async ({
     status,
     currentNodeId,
     context: patchContext,
+    wakeAt,
   }: SessionPatch) => {
     const data: Prisma.SessionUpdateInput = {};
     if (status !== undefined) {
       data.status = status;
+      data.wakeAt = wakeAt ?? null;
     }
     if (currentNodeId !== undefined) {
       data.currentNodeId = currentNodeId;
@@ -652,12 +1088,123 @@ export async function executeFlow(
           : (patchContext as unknown as Prisma.InputJsonValue);
     }
 
+    if (dryRun) return;
     await prisma.session.update({
       where: { id: session.id },
       data,
     });
   };
 
+  const resolveInactivity = (node: FlowNode): InactivityData | null => {
+    const merged: Partial<InactivityData> = {
+      ...flow.settings?.inactivity,
+      ...(node.data as { inactivity?: Partial<InactivityData> }).inactivity,
+    };
+    if (merged.enabled === false) return null;
+    return merged.reminderMinutes || merged.timeoutMinutes
+      ? { enabled: true, ...merged }
+      : null;
+  };
+
+  // Submission deadline of the WhatsApp Flow sent by `node`, NaN when none
+  const whatsappFlowDeadline = (node: FlowNode) => {
+    const pending = context.pendingWhatsappFlow;
+    return pending?.nodeId === node.id && pending.expiresAt
+      ? Date.parse(pending.expiresAt)
+      : NaN;
+  };
+
+  const earliestWakeAt = (...times: number[]) => {
+    const due = times.filter(Number.isFinite);
+    return due.length ? new Date(Math.min(...due)) : null;
+  };
+
+  /**
+   * Pauses on a node that waits for the customer and arms its inactivity
+   * deadlines; the flow scheduler wakes the session when the next one (or
+   * the WhatsApp Flow submission deadline) is due.
+   */
+  const pauseForCustomer = async (node: FlowNode) => {
+    const settings = resolveInactivity(node);
+    const now = Date.now();
+    const after = (minutes?: number) =>
+      minutes ? new Date(now + minutes * 60_000) : null;
+    const remindAt = settings?.reminderText?.trim()
+      ? after(settings.reminderMinutes)
+      : null;
+    const expiresAt = after(settings?.timeoutMinutes);
+
+    context.pendingInactivity =
+      remindAt || expiresAt
+        ? {
+            nodeId: node.id,
+            pausedAt: new Date(now).toISOString(),
+            remindAt: remindAt?.toISOString() ?? null,
+            expiresAt: expiresAt?.toISOString() ?? null,
+            reminded: false,
+          }
+        : null;
+    await updateSession({
+      status: "Paused",
+      wakeAt: earliestWakeAt(
+        (remindAt ?? expiresAt)?.getTime() ?? NaN,
+        whatsappFlowDeadline(node),
+      ),
+      context,
+    });
+  };
+
+  const logInactivityOutcome = async (
+    status: "Reminder Sent" | "Reminder Failed" | "Timed Out" | "Expired",
+    node: FlowNode,
+    details: Record<string, unknown> = {},
+  ) => {
+    if (dryRun) return;
+    try {
+      await prisma.log.create({
+        data: {
+          status,
+          context: {
+            event: "inactivity",
+            nodeId: node.id,
+            nodeType: node.type,
+            ...details,
+          } as Prisma.InputJsonValue,
+          contactId: session.contactId,
+          flowId: session.flowId,
+        },
+      });
+    } catch (error) {
+      console.error("Failed to record inactivity outcome:", error);
+    }
+  };
+
+  // A failed reminder is logged and the timeout still applies
+  const sendInactivityReminder = async (node: FlowNode) => {
+    const text = tpl(resolveInactivity(node)?.reminderText ?? "").trim();
+    if (!text) return;
+
+    const sendResult = await sendMessage(
+      session.flow.userId,
+      session.contact.phone,
+      { type: "text", text },
+      outboundContext,
+    );
+    if (sendResult?.success) {
+      recordOutbound("text", { text });
+      await logInactivityOutcome("Reminder Sent", node, { text });
+      return;
+    }
+
+    console.warn(
+      `Failed to send inactivity reminder for session ${session.id}:`,
+      sendResult?.error ?? "",
+    );
+    await logInactivityOutcome("Reminder Failed", node, {
+      error: sendResult?.error ?? null,
+    });
+  };
+
   const apiCall = async (url: string, init: RequestInit) => {
     const ctrl = new AbortController();
     const t = setTimeout(() => ctrl.abort(), API_TIMEOUT_MS);
@@ -677,7 +1224,27 @@ export async function executeFlow(
   // --- Find starting node ---
   let currentNode: FlowNode | undefined;
 
-  if (session.currentNodeId && session.status === "Paused") {
+  // A retry of the message that interrupted a run continues at the node that
+  // failed; the steps before it already went out
+  const checkpoint = context.retryCheckpoint ?? null;
+  context.retryCheckpoint = null;
+  const resumingRetry =
+    !!checkpoint &&
+    !!inboundMessageId &&
+    checkpoint.messageId === inboundMessageId &&
+    session.status === "Active" &&
+    checkpoint.nodeId === session.currentNodeId;
+
+  if (resumingRetry) {
+    currentNode = nodeById.get(checkpoint.nodeId);
+    if (!currentNode) {
+      console.error(
+        `Node ${checkpoint.nodeId} not found in flow ${session.flowId}`,
+      );
+      await updateSession({ status: "Errored", context });
+      return;
+    }
+  } else if (session.currentNodeId && session.status === "Paused") {
     const paused = nodeById.get(session.currentNodeId);
     if (!paused) {
       console.error(
@@ -687,7 +1254,160 @@ export async function executeFlow(
       return;
     }
 
-    if (paused.type === "options") {
+    const pendingInactivity =
+      context.pendingInactivity?.nodeId === paused.id
+        ? context.pendingInactivity
+        : null;
+    // An expired WhatsApp Flow resumes through its own timeout handling below
+    const whatsappFlowExpired = whatsappFlowDeadline(paused) <= Date.now();
+    // Any message from the customer disarms the inactivity deadlines; nodes
+    // that keep waiting arm them again when they re-pause
+    if (!isWakeUp || whatsappFlowExpired) context.pendingInactivity = null;
+
+    if (isWakeUp && paused.type !== "delay" && !whatsappFlowExpired) {
+      // Inactivity deadline: remind the customer or give up on the step
+      if (!pendingInactivity) {
+        // Woken early; keep the Flow submission deadline armed
+        const wakeAt = earliestWakeAt(whatsappFlowDeadline(paused));
+        if (wakeAt) await updateSession({ status: "Paused", wakeAt, context });
+        return;
+      }
+
+      const now = Date.now();
+      const expiresAt = pendingInactivity.expiresAt
+        ? Date.parse(pendingInactivity.expiresAt)
+        : NaN;
+
+      if (!(expiresAt <= now)) {
+        const remindAt = pendingInactivity.remindAt
+          ? Date.parse(pendingInactivity.remindAt)
+          : NaN;
+        if (!pendingInactivity.reminded && remindAt <= now) {
+          await sendInactivityReminder(paused);
+          pendingInactivity.reminded = true;
+        }
+        const next =
+          !pendingInactivity.reminded && remindAt > now ? remindAt : expiresAt;
+        await updateSession({
+          status: "Paused",
+          wakeAt: earliestWakeAt(next, whatsappFlowDeadline(paused)),
+          context,
+        });
+        return;
+      }
+
+      context.pendingInactivity = null;
+      context.pendingQuestion = null;
+      context.pendingWhatsappFlow = null;
+      const nextId = edgeForOption(paused.id, "timeout")?.target;
+      const details = {
+        pausedAt: pendingInactivity.pausedAt,
+        reminded: pendingInactivity.reminded,
+      };
+
+      if (!nextId) {
+        context.endReason = "inactivity_timeout";
+        await logInactivityOutcome("Expired", paused, details);
+        await updateSession({
+          status: "Expired",
+          currentNodeId: null,
+          context,
+        });
+        return;
+      }
+
+      currentNode = nodeById.get(nextId) as FlowNode | undefined;
+      if (!currentNode) {
+        console.error(`Next node ${nextId} not found (resume)`);
+        await updateSession({ status: "Errored", context });
+        return;
+      }
+      await logInactivityOutcome("Timed Out", paused, {
+        ...details,
+        nextNodeId: nextId,
+      });
+      await updateSession({ status: "Active", context });
+    } else if (paused.type === "delay") {
+      const wakeAt = session.wakeAt ? new Date(session.wakeAt) : null;
+      if (wakeAt && wakeAt.getTime() > Date.now()) {
+        // Messages during the wait are kept; the flow continues on schedule
+        if (inboundPayload) recordInbound(inboundPayload);
+        await updateSession({ status: "Paused", wakeAt, context });
+        return;
+      }
+
+      const nextId = chooseFirstEdge(paused.id)?.target;
+      if (!nextId) {
+        if (inboundPayload) recordInbound(inboundPayload);
+        await updateSession({
+          status: "Completed",
+          currentNodeId: null,
+          context,
+        });
+        return;
+      }
+
+      currentNode = nodeById.get(nextId) as FlowNode | undefined;
+      if (!currentNode) {
+        console.error(`Next node ${nextId} not found (resume)`);
+        await updateSession({ status: "Errored", context });
+        return;
+      }
+      await updateSession({ status: "Active", context });
+    } else if (paused.type === "question") {
+      // Resume from a question: store a valid answer or re-prompt
+      const data = paused.data as QuestionData;
+      const pending =
+        context.pendingQuestion?.nodeId === paused.id
+          ? context.pendingQuestion
+          : null;
+      const result = validateQuestionAnswer(data, messageText ?? "");
+
+      let nextId: string | undefined;
+      if (result.valid) {
+        setByPath(context, data.variable?.trim() || "answer", result.value);
+        context.lastQuestionError = null;
+        nextId = (
+          edgeForOption(paused.id, "answered") ??
+          (outgoingBySource.get(paused.id) ?? []).find((e) => !e.sourceHandle)
+        )?.target;
+      } else {
+        const attempts = (pending?.attempts ?? 0) + 1;
+        context.lastQuestionError = result.reason;
+        if (attempts <= (data.maxRetries ?? 2)) {
+          if (inboundPayload) recordInbound(inboundPayload);
+          context.pendingQuestion = { nodeId: paused.id, attempts };
+          if (flow.settings?.readReceipts) await markInboundRead(false);
+          const retryText = data.retryText?.trim()
+            ? tpl(data.retryText)
+            : DEFAULT_QUESTION_RETRY_TEXT[data.answerType ?? "text"];
+          await sendQuestionText(retryText, data);
+          await pauseForCustomer(paused);
+          return;
+        }
+        nextId = edgeForOption(paused.id, "failed")?.target;
+      }
+      context.pendingQuestion = null;
+
+      if (!nextId) {
+        if (inboundPayload) recordInbound(inboundPayload);
+        if (!result.valid) context.endReason = "question_failed";
+        await updateSession({
+          status: "Completed",
+          currentNodeId: null,
+          context,
+        });
+        return;
+      }
+
+      currentNode = nodeById.get(nextId) as FlowNode | undefined;
+      if (!currentNode) {
+        console.error(`Next node ${nextId} not found (resume)`);
+        await updateSession({ status: "Errored", context });
+        return;
+      }
+      await updateSession({ status: "Active", context });
+    } else if (paused.type === "options") {
       // Resume from options
       const optionsData = paused.data as OptionsData;
       const normalizedOptions = Array.isArray(optionsData.options)
@@ -703,7 +1423,7 @@ export async function executeFlow(
         idx = normalizedOptions.findIndex((opt, optionIndex) => {
           const optionId = toLcUnderscore(opt);
           if (interactiveId === optionId) return true;
-          // Fallback: buttons created before id normalisation may use opt-{index}
+          // List rows (and buttons created before id normalisation) use opt-{index}
           return interactiveId === `opt-${optionIndex}`;
         });
       }
@@ -740,6 +1460,68 @@ export async function executeFlow(
         return;
       }
       await updateSession({ status: "Active", context });
+    } else if (paused.type === "whatsapp_flow") {
+      // Resume from a WhatsApp Flow once the user submits it (nfm_reply)
+      const flowData = paused.data as Partial<WhatsAppFlowData>;
+      const pending = context.pendingWhatsappFlow ?? null;
+      const flowResponse = inboundPayload?.flowResponse ?? null;
+      const expectedToken = session.flow.metaFlowToken?.trim() ?? null;
+      const timedOut =
+        !!pending?.expiresAt && Date.parse(pending.expiresAt) <= Date.now();
+
+      const tokenMismatch =
+        !!flowResponse?.flowToken &&
+        !!expectedToken &&
+        flowResponse.flowToken !== expectedToken;
+      if (tokenMismatch) {
+        console.warn(
+          `Ignoring WhatsApp Flow response with unexpected token for session ${session.id}`,
+        );
+      }
+
+      const accepted = !!flowResponse && !timedOut && !tokenMismatch;
+
+      if (!accepted && !timedOut) {
+        // Still waiting for the submission; keep the session parked
+        if (inboundPayload) recordInbound(inboundPayload);
+        await pauseForCustomer(paused);
+        return;
+      }
+
+      let nextId: string | undefined;
+      if (accepted && flowResponse) {
+        setByPath(
+          context,
+          flowData.responseVariable?.trim() || "flowResponse",
+          flowResponse.data,
+        );
+        nextId = (
+          edgeForOption(paused.id, "completed") ??
+          (outgoingBySource.get(paused.id) ?? []).find((e) => !e.sourceHandle)
+        )?.target;
+      } else {
+        nextId = edgeForOption(paused.id, "timeout")?.target;
+      }
+      context.pendingWhatsappFlow = null;
+
+      if (!nextId) {
+        if (inboundPayload) recordInbound(inboundPayload);
+        if (!accepted) context.endReason = "whatsapp_flow_timeout";
+        await updateSession({
+          status: "Completed",
+          currentNodeId: null,
+          context,
+        });
+        return;
+      }
+
+      currentNode = nodeById.get(nextId) as FlowNode | undefined;
+      if (!currentNode) {
+        console.error(`Next node ${nextId} not found (resume)`);
+        await updateSession({ status: "Errored", context });
+        return;
+      }
+      await updateSession({ status: "Active", context });
     } else {
       currentNode = paused;
     }
@@ -797,27 +1579,62 @@ export async function executeFlow(
     }
   }
 
-  if (inboundPayload && (session.status === "Paused" || currentNode)) {
+  if (
+    inboundPayload &&
+    !resumingRetry &&
+    (session.status === "Paused" || currentNode)
+  ) {
     recordInbound(inboundPayload);
   }
 
+  if (currentNode && !resumingRetry && flow.settings?.readReceipts) {
+    await markInboundRead(false);
+  }
+
   // --- Main loop ---
-  const visited = new Set<string>();
-  let steps = 0;
+  // Counters cover one run. Pausing nodes end the run, so a menu the customer
+  // comes back to, or a retry behind a delay, starts from zero each time.
+  const maxSteps = flow.settings?.maxSteps ?? DEFAULT_MAX_STEPS;
+  const maxNodeVisits = flow.settings?.maxNodeVisits ?? DEFAULT_MAX_NODE_VISITS;
+  const visits = new Map<string, number>();
+  const path: string[] = [];
+
+  const describeNode = (node: FlowNode) => {
+    const name = (node.data as { name?: unknown }).name;
+    return typeof name === "string" && name.trim()
+      ? `"${name.trim()}" (${node.id})`
+      : node.id;
+  };
+
+  const describePath = () => {
+    const tail = path.slice(-LOOP_PATH_PREVIEW);
+    return `${path.length > tail.length ? "… → " : ""}${tail.join(" → ")}`;
+  };
 
   try {
     while (currentNode) {
-      if (steps++ > SAFE_MAX_STEPS) {
-        await updateSession({ status: "Errored", context });
-        console.error("Guard limit reached");
-        return;
-      }
-      if (visited.has(currentNode.id)) {
+      const count = (visits.get(currentNode.id) ?? 0) + 1;
+      visits.set(currentNode.id, count);
+      path.push(currentNode.id);
+
+      const visitLimit =
+        (currentNode.data as { maxVisits?: number }).maxVisits ?? maxNodeVisits;
+      const loopError =
+        path.length > maxSteps
+          ? `Step budget of ${maxSteps} exhausted at node ${describeNode(currentNode)}`
+          : count > visitLimit
+            ? `Node ${describeNode(currentNode)} exceeded ${visitLimit} visits in one run`
+            : null;
+      if (loopError) {
+        const message = `${loopError}; path: ${describePath()}`;
+        console.error(
+          `Loop guard stopped session ${session.id} (flow ${session.flowId}): ${message}`,
+        );
+        context.lastError = message;
         await updateSession({ status: "Errored", context });
-        console.error("Loop detected at", currentNode.id);
         return;
       }
-      visited.add(currentNode.id);
+
       await updateSession({ currentNodeId: currentNode.id, context });
 
       let nextNodeId: string | undefined;
@@ -858,6 +1675,7 @@ export async function executeFlow(
                   ...(components.length ? { components } : {}),
                 },
               },
+              replyContext(data.quoteReply),
             );
 
             if (!sendResult?.success) {
@@ -882,6 +1700,7 @@ export async function executeFlow(
                   typeof param.component === "string" && param.component.trim()
                     ? param.component.trim().toUpperCase()
                     : "BODY",
+                type: param.type ?? "text",
                 subType:
                   typeof param.subType === "string" && param.subType.trim()
                     ? param.subType.trim().toUpperCase()
@@ -907,8 +1726,18 @@ export async function executeFlow(
               type: "text",
               text,
             },
+            replyContext(data.quoteReply),
           );
           if (!sendResult?.success) {
+            if (
+              await sendFallbackTemplate(
+                sendResult,
+                data.fallbackTemplate,
+                "text",
+              )
+            ) {
+              break;
+            }
             console.error(
               "Failed to send text message to",
               session.contact.phone,
@@ -928,16 +1757,36 @@ export async function executeFlow(
           const data = currentNode.data as OptionsData & { text?: string };
           const text = tpl(data.text ?? "");
           const options = data.options ?? [];
+          const asList =
+            data.display === "list" || options.length > waMaxReplyButtons;
           const sendResult = await sendMessage(
             session.flow.userId,
             session.contact.phone,
-            {
-              type: "options",
-              text,
-              options,
-            },
+            asList
+              ? {
+                  type: "list",
+                  text,
+                  button:
+                    tpl(data.listButton ?? "").trim() || DEFAULT_LIST_BUTTON,
+                  sections: buildOptionListSections(data, options),
+                }
+              : {
+                  type: "options",
+                  text,
+                  options,
+                },
+            replyContext(data.quoteReply),
           );
-          if (!sendResult?.success) {
+          if (sendResult?.success) {
+            recordOutbound("options", { text, options });
+          } else if (
+            // Replies to the template still resume this node below
+            !(await sendFallbackTemplate(
+              sendResult,
+              data.fallbackTemplate,
+              "options",
+            ))
+          ) {
             console.error(
               "Failed to send options message to",
               session.contact.phone,
@@ -949,19 +1798,31 @@ export async function executeFlow(
             throw new FlowSendMessageError(message, sendResult?.status);
           }
 
-          recordOutbound("options", { text, options });
-          await updateSession({ status: "Paused", context });
+          await pauseForCustomer(currentNode);
           return; // wait for user input
         }
 
+        case "question": {
+          const data = currentNode.data as QuestionData;
+          await sendQuestionText(tpl(data.text), data);
+          context.pendingQuestion = { nodeId: currentNode.id, attempts: 0 };
+          await pauseForCustomer(currentNode);
+          return; // wait for the answer
+        }
+
         case "delay": {
           const data = currentNode.data as DelayData;
-          const ms = Math.min(
-            Math.max(0, (data.seconds ?? 0) * 1000),
-            MAX_DELAY_MS,
+          const until = data.until ? Date.parse(tpl(data.until).trim()) : NaN;
+          const wakeAt = new Date(
+            Number.isFinite(until) && until > Date.now()
+              ? until
+              : Date.now() + Math.max(0, (data.seconds ?? 0) * 1000),
           );
-          if (ms > 0) await new Promise((r) => setTimeout(r, ms));
-          break;
+          if (wakeAt.getTime() <= Date.now()) break;
+
+          if (showTyping(data)) await markInboundRead(true);
+          await updateSession({ status: "Paused", wakeAt, context });
+          return; // the flow scheduler resumes the session at `wakeAt`
         }
 
         case "condition": {
@@ -969,7 +1830,7 @@ export async function executeFlow(
           const expr = String(data.expression ?? "false");
           let res = false;
           try {
-            res = safeEvalBool(expr, { ...context });
+            res = evaluateFlowCondition(expr, { ...context });
           } catch (e) {
             console.error("Condition error:", e);
             res = false;
@@ -980,6 +1841,7 @@ export async function executeFlow(
 
         case "api": {
           const data = currentNode.data as APICallData;
+          if (showTyping(data)) await markInboundRead(true);
           const method = String(data.method || "GET").toUpperCase();
           const url = tpl(data.url);
           const headersObj = data.headers ?? {};
@@ -1020,13 +1882,24 @@ export async function executeFlow(
             id: data.id ? tpl(data.id) : undefined,
             url: data.url ? tpl(data.url) : undefined,
             caption: data.caption ? tpl(data.caption) : undefined,
+            assetId: data.assetId ? tpl(data.assetId) : undefined,
           };
           const sendResult = await sendMessage(
             session.flow.userId,
             session.contact.phone,
             { type: "media", ...mediaPayload },
+            replyContext(data.quoteReply),
           );
           if (!sendResult?.success) {
+            if (
+              await sendFallbackTemplate(
+                sendResult,
+                data.fallbackTemplate,
+                "media",
+              )
+            ) {
+              break;
+            }
             console.error(
               "Failed to send media message to",
               session.contact.phone,
@@ -1043,12 +1916,7 @@ export async function executeFlow(
         }
 
         case "whatsapp_flow": {
-          const data = currentNode.data as {
-            header?: string;
-            body?: string;
-            footer?: string;
-            cta?: string;
-          };
+          const data = currentNode.data as Partial<WhatsAppFlowData>;
           const headerText = tpl(data.header ?? "").trim();
           const bodyText = tpl(data.body ?? "");
           const footerText = tpl(data.footer ?? "").trim();
@@ -1089,6 +1957,7 @@ export async function executeFlow(
                 cta: ctaText || undefined,
               },
             },
+            outboundContext,
           );
 
           if (!sendResult?.success) {
@@ -1109,14 +1978,34 @@ export async function executeFlow(
             footer: footerText,
             cta: ctaText,
           });
-          break;
+
+          if (data.waitForResponse === false) {
+            break;
+          }
+
+          const sentAt = new Date();
+          const timeoutMinutes =
+            typeof data.timeoutMinutes === "number" && data.timeoutMinutes > 0
+              ? data.timeoutMinutes
+              : null;
+          context.pendingWhatsappFlow = {
+            nodeId: currentNode.id,
+            sentAt: sentAt.toISOString(),
+            expiresAt: timeoutMinutes
+              ? new Date(
+                  sentAt.getTime() + timeoutMinutes * 60_000,
+                ).toISOString()
+              : null,
+          };
+          await pauseForCustomer(currentNode);
+          return; // wait for the Flow submission
         }
 
         case "handoff": {
           const data = currentNode.data as HandoffData;
           context.handoffQueue = data.queue;
           context.handoffNote = data.note ? tpl(data.note) : undefined;
-          await updateSession({ status: "Paused", context });
+          await pauseForCustomer(currentNode);
           return; // agent picks up
         }
 
@@ -1169,7 +2058,21 @@ export async function executeFlow(
     }
   } catch (err) {
     console.error("Flow execution error:", err);
-    await updateSession({ status: "Errored", context });
+    if (stats.sent && inboundMessageId && currentNode) {
+      // Rewinding would resend what already went out; park the run at the
+      // failed node for a retry of the same message instead
+      context.retryCheckpoint = {
+        messageId: inboundMessageId,
+        nodeId: currentNode.id,
+      };
+      await updateSession({
+        status: "Active",
+        currentNodeId: currentNode.id,
+        context,
+      });
+    } else {
+      await updateSession({ status: "Errored", context });
+    }
     throw err;
   }
 }
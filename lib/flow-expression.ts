@@ -0,0 +1,905 @@
+/* Expression language for condition nodes. Expressions are parsed into a
+ * small AST and evaluated against the session context; nothing reaches the
+ * JavaScript runtime, so there is no way to call arbitrary code or walk up
+ * prototypes.
+ *
+ *   context.total >= 100 and lower(context.country) in ["ar", "uy"]
+ *   contains(context.input, "refund") || context.input.startsWith("#")
+ *   now() - date(context.lastInboundAt) > 3600000
+ *
+ * Paths are null-safe (`a.b.c` is `null` when `a` is missing), comparisons
+ * coerce numeric strings and ISO dates, and the JavaScript forms of the
+ * common operators (`===`, `!`, `.includes()`, `.toLowerCase()`) keep
+ * working so existing conditions stay valid. */
+
+export class FlowExpressionError extends Error {
+  /** Problem description without the location suffix. */
+  reason: string;
+  /** Zero-based offset into the source. */
+  position: number;
+  line: number;
+  column: number;
+
+  constructor(reason: string, source: string, position: number) {
+    const before = source.slice(0, position).split("\n");
+    const line = before.length;
+    const column = before[before.length - 1].length + 1;
+    super(`${reason} at line ${line}, column ${column}`);
+    this.name = "FlowExpressionError";
+    this.reason = reason;
+    this.position = position;
+    this.line = line;
+    this.column = column;
+  }
+}
+
+type TokenType = "number" | "string" | "identifier" | "operator" | "eof";
+
+type Token = {
+  type: TokenType;
+  value: string;
+  pos: number;
+};
+
+export type ExpressionNode =
+  | { kind: "literal"; value: unknown; pos: number }
+  | { kind: "identifier"; name: string; pos: number }
+  | {
+      kind: "member";
+      object: ExpressionNode;
+      property: string | ExpressionNode;
+      pos: number;
+    }
+  | { kind: "array"; items: ExpressionNode[]; pos: number }
+  | { kind: "unary"; op: "!" | "-"; operand: ExpressionNode; pos: number }
+  | {
+      kind: "binary";
+      op: string;
+      left: ExpressionNode;
+      right: ExpressionNode;
+      pos: number;
+    }
+  | { kind: "call"; name: string; args: ExpressionNode[]; pos: number };
+
+const OPERATORS = [
+  "===",
+  "!==",
+  "==",
+  "!=",
+  "<=",
+  ">=",
+  "&&",
+  "||",
+  "?.",
+  "<",
+  ">",
+  "!",
+  "+",
+  "-",
+  "*",
+  "/",
+  "%",
+  "(",
+  ")",
+  "[",
+  "]",
+  ",",
+  ".",
+];
+
+const MAX_DEPTH = 64;
+// Operators, calls and property accesses; bounds the evaluator's recursion
+// on long chains such as `a + b + c + …`
+const MAX_NODES = 500;
+const MAX_PATTERN_LENGTH = 200;
+// Regexes run on user input; cap the subject to bound backtracking
+const MAX_MATCH_INPUT_LENGTH = 10_000;
+
+const FORBIDDEN_KEYS = new Set(["__proto__", "prototype", "constructor"]);
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    const number = /^\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/.exec(source.slice(index));
+    if (number) {
+      tokens.push({ type: "number", value: number[0], pos: index });
+      index += number[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      const start = index;
+      let value = "";
+      index++;
+      while (index < source.length && source[index] !== char) {
+        if (source[index] === "\\") {
+          const next = source[index + 1];
+          if (next === undefined) break;
+          if (next === "u") {
+            const hex = source.slice(index + 2, index + 6);
+            if (!/^[0-9a-fA-F]{4}$/.test(hex)) {
+              throw new FlowExpressionError(
+                "Invalid unicode escape",
+                source,
+                index,
+              );
+            }
+            value += String.fromCharCode(Number.parseInt(hex, 16));
+            index += 6;
+            continue;
+          }
+          value += next === "n" ? "\n" : next === "t" ? "\t" : next;
+          index += 2;
+          continue;
+        }
+        value += source[index];
+        index++;
+      }
+      if (source[index] !== char) {
+        throw new FlowExpressionError("Unterminated string", source, start);
+      }
+      index++;
+      tokens.push({ type: "string", value, pos: start });
+      continue;
+    }
+
+    const identifier = /^[\p{L}_$][\p{L}\p{N}_$]*/u.exec(source.slice(index));
+    if (identifier) {
+      tokens.push({ type: "identifier", value: identifier[0], pos: index });
+      index += identifier[0].length;
+      continue;
+    }
+
+    const operator = OPERATORS.find((candidate) =>
+      source.startsWith(candidate, index),
+    );
+    if (operator) {
+      tokens.push({ type: "operator", value: operator, pos: index });
+      index += operator.length;
+      continue;
+    }
+
+    if (char === "=") {
+      throw new FlowExpressionError(
+        'Assignment is not allowed; use "==" to compare',
+        source,
+        index,
+      );
+    }
+    if (char === "&" || char === "|") {
+      throw new FlowExpressionError(
+        `Unexpected "${char}"; use "${char}${char}"`,
+        source,
+        index,
+      );
+    }
+    throw new FlowExpressionError(
+      `Unexpected character "${char}"`,
+      source,
+      index,
+    );
+  }
+
+  tokens.push({ type: "eof", value: "", pos: source.length });
+  return tokens;
+}
+
+/* ===== Functions ===== */
+
+type ExpressionFunction = {
+  minArgs: number;
+  maxArgs: number;
+  run: (...args: unknown[]) => unknown;
+};
+
+const isDateLike = (value: string) =>
+  /^\d{4}-\d{2}-\d{2}(?:[T ][\d:.]+(?:Z|[+-]\d{2}:?\d{2})?)?$/.test(
+    value.trim(),
+  );
+
+const toNumber = (value: unknown): number | null => {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value === "boolean") return value ? 1 : 0;
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === "string" && value.trim()) {
+    const parsed = Number(value.trim());
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+};
+
+const toTimestamp = (value: unknown): number | null => {
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? null : value.getTime();
+  }
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value === "string" && value.trim()) {
+    const parsed = Date.parse(value.trim());
+    return Number.isNaN(parsed) ? null : parsed;
+  }
+  return null;
+};
+
+const toText = (value: unknown): string => {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "string") return value;
+  if (typeof value === "object") {
+    try {
+      return JSON.stringify(value);
+    } catch {
+      return "";
+    }
+  }
+  return String(value);
+};
+
+const hasOwn = (object: object, key: string) =>
+  !FORBIDDEN_KEYS.has(key) && Object.prototype.hasOwnProperty.call(object, key);
+
+const looseEquals = (left: unknown, right: unknown): boolean => {
+  const a = left ?? null;
+  const b = right ?? null;
+  if (a === null || b === null) return a === b;
+  if (a === b) return true;
+
+  if (typeof a === "boolean" || typeof b === "boolean") {
+    return toText(a).toLowerCase() === toText(b).toLowerCase();
+  }
+  if (a instanceof Date || b instanceof Date) {
+    return toTimestamp(a) !== null && toTimestamp(a) === toTimestamp(b);
+  }
+  if (typeof a === "number" || typeof b === "number") {
+    const x = toNumber(a);
+    return x !== null && x === toNumber(b);
+  }
+  return false;
+};
+
+const compareValues = (left: unknown, right: unknown): number | null => {
+  const a = left ?? null;
+  const b = right ?? null;
+  if (a === null || b === null) return null;
+
+  const x = toNumber(a);
+  const y = toNumber(b);
+  const numeric =
+    x !== null &&
+    y !== null &&
+    !(typeof a === "string" && isDateLike(a)) &&
+    !(typeof b === "string" && isDateLike(b));
+  if (numeric) return x - y;
+
+  const dates =
+    (a instanceof Date || (typeof a === "string" && isDateLike(a))) &&
+    (b instanceof Date || (typeof b === "string" && isDateLike(b)));
+  if (dates) {
+    const ta = toTimestamp(a);
+    const tb = toTimestamp(b);
+    return ta === null || tb === null ? null : ta - tb;
+  }
+
+  if (typeof a === "string" && typeof b === "string") {
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+  return null;
+};
+
+const contains = (haystack: unknown, needle: unknown): boolean => {
+  if (Array.isArray(haystack)) {
+    return haystack.some((item) => looseEquals(item, needle));
+  }
+  if (typeof haystack === "string") {
+    return haystack.includes(toText(needle));
+  }
+  if (haystack && typeof haystack === "object") {
+    return hasOwn(haystack, toText(needle));
+  }
+  return false;
+};
+
+const regexCache = new Map<string, RegExp>();
+
+const compileRegex = (pattern: string, flags: string): RegExp => {
+  if (pattern.length > MAX_PATTERN_LENGTH) {
+    throw new Error(`Patterns are limited to ${MAX_PATTERN_LENGTH} characters`);
+  }
+  if (!/^[imsu]*$/.test(flags)) {
+    throw new Error(`Unsupported regex flags "${flags}"`);
+  }
+  const key = `${flags}/${pattern}`;
+  let regex = regexCache.get(key);
+  if (!regex) {
+    regex = new RegExp(pattern, flags);
+    if (regexCache.size > 200) regexCache.clear();
+    regexCache.set(key, regex);
+  }
+  return regex;
+};
+
+const FUNCTIONS: Record<string, ExpressionFunction> = {
+  contains: { minArgs: 2, maxArgs: 2, run: contains },
+  startsWith: {
+    minArgs: 2,
+    maxArgs: 2,
+    run: (value, prefix) => toText(value).startsWith(toText(prefix)),
+  },
+  endsWith: {
+    minArgs: 2,
+    maxArgs: 2,
+    run: (value, suffix) => toText(value).endsWith(toText(suffix)),
+  },
+  lower: {
+    minArgs: 1,
+    maxArgs: 1,
+    run: (value) => toText(value).toLowerCase(),
+  },
+  upper: {
+    minArgs: 1,
+    maxArgs: 1,
+    run: (value) => toText(value).toUpperCase(),
+  },
+  trim: { minArgs: 1, maxArgs: 1, run: (value) => toText(value).trim() },
+  // The pattern and flags are literals, checked when the flow is saved
+  matches: {
+    minArgs: 2,
+    maxArgs: 3,
+    run: (value, pattern, flags) =>
+      compileRegex(toText(pattern), toText(flags ?? "")).test(
+        toText(value).slice(0, MAX_MATCH_INPUT_LENGTH),
+      ),
+  },
+  length: {
+    minArgs: 1,
+    maxArgs: 1,
+    run: (value) => {
+      if (typeof value === "string" || Array.isArray(value)) {
+        return value.length;
+      }
+      if (value && typeof value === "object") return Object.keys(value).length;
+      return 0;
+    },
+  },
+  number: { minArgs: 1, maxArgs: 1, run: (value) => toNumber(value) },
+  date: { minArgs: 1, maxArgs: 1, run: (value) => toTimestamp(value) },
+  now: { minArgs: 0, maxArgs: 0, run: () => Date.now() },
+  exists: {
+    minArgs: 1,
+    maxArgs: 1,
+    run: (value) => value !== null && value !== undefined,
+  },
+  isEmpty: {
+    minArgs: 1,
+    maxArgs: 1,
+    run: (value) => {
+      if (value === null || value === undefined) return true;
+      if (typeof value === "string") return !value.trim();
+      if (Array.isArray(value)) return value.length === 0;
+      if (typeof value === "object") return Object.keys(value).length === 0;
+      return false;
+    },
+  },
+};
+
+// JavaScript spellings accepted for compatibility with older conditions
+const FUNCTION_ALIASES: Record<string, string> = {
+  includes: "contains",
+  toLowerCase: "lower",
+  toUpperCase: "upper",
+  len: "length",
+  test: "matches",
+};
+
+const resolveFunctionName = (name: string) =>
+  FUNCTIONS[name] ? name : (FUNCTION_ALIASES[name] ?? null);
+
+/* ===== Parser ===== */
+
+const binary = (
+  op: string,
+  left: ExpressionNode,
+  right: ExpressionNode,
+  pos: number,
+): ExpressionNode => ({ kind: "binary", op, left, right, pos });
+
+const COMPARISON_OPERATORS = new Set([
+  "==",
+  "!=",
+  "===",
+  "!==",
+  "<",
+  "<=",
+  ">",
+  ">=",
+]);
+
+function createParser(source: string) {
+  const tokens = tokenize(source);
+  let index = 0;
+  let depth = 0;
+  let nodes = 0;
+
+  const peek = () => tokens[index];
+  const next = () => tokens[index++];
+  const fail = (reason: string, token: Token = peek()): never => {
+    throw new FlowExpressionError(reason, source, token.pos);
+  };
+
+  const describe = (token: Token) =>
+    token.type === "eof"
+      ? "end of expression"
+      : token.type === "string"
+        ? "string"
+        : `"${token.value}"`;
+
+  const isOperator = (value: string, token: Token = peek()) =>
+    token.type === "operator" && token.value === value;
+  const isKeyword = (value: string, token: Token = peek()) =>
+    token.type === "identifier" && token.value === value;
+
+  const expect = (value: string) => {
+    const token = peek();
+    if (!isOperator(value, token)) {
+      fail(`Expected "${value}" but found ${describe(token)}`);
+    }
+    return next();
+  };
+
+  const enter = () => {
+    if (++depth > MAX_DEPTH) {
+      fail("Expression is nested too deeply");
+    }
+  };
+
+  // Runs a nested parse under the depth guard
+  const nested = <T>(parse: () => T): T => {
+    enter();
+    const result = parse();
+    depth--;
+    return result;
+  };
+
+  const count = (token: Token) => {
+    if (++nodes > MAX_NODES) {
+      fail("Expression is too long", token);
+    }
+  };
+
+  const parseArguments = (): ExpressionNode[] => {
+    expect("(");
+    const args: ExpressionNode[] = [];
+    if (!isOperator(")")) {
+      do {
+        args.push(nested(parseOr));
+      } while (isOperator(",") && next());
+    }
+    expect(")");
+    return args;
+  };
+
+  const buildCall = (
+    rawName: string,
+    args: ExpressionNode[],
+    token: Token,
+  ): ExpressionNode => {
+    const name = resolveFunctionName(rawName);
+    if (!name) {
+      return fail(`Unknown function "${rawName}"`, token);
+    }
+    const fn = FUNCTIONS[name];
+    if (args.length < fn.minArgs || args.length > fn.maxArgs) {
+      const expected =
+        fn.minArgs === fn.maxArgs
+          ? `${fn.minArgs}`
+          : `${fn.minArgs}-${fn.maxArgs}`;
+      fail(
+        `${rawName}() takes ${expected} argument${fn.maxArgs === 1 ? "" : "s"}, got ${args.length}`,
+        token,
+      );
+    }
+
+    count(token);
+
+    // Patterns come from the flow, never from the conversation, so they are
+    // checked here and a pathological one can't be built at runtime
+    if (name === "matches") {
+      const [, pattern, flags] = args;
+      if (
+        pattern.kind !== "literal" ||
+        (flags !== undefined && flags.kind !== "literal")
+      ) {
+        return fail(`${rawName}() needs a literal pattern and flags`, token);
+      }
+      try {
+        compileRegex(
+          toText(pattern.value),
+          flags?.kind === "literal" ? toText(flags.value) : "",
+        );
+      } catch (error) {
+        fail(
+          `Invalid pattern: ${error instanceof Error ? error.message : String(error)}`,
+          { type: "string", value: "", pos: pattern.pos },
+        );
+      }
+    }
+
+    return { kind: "call", name, args, pos: token.pos };
+  };
+
+  const parsePrimary = (): ExpressionNode => {
+    const token = next();
+
+    if (token.type === "number") {
+      return { kind: "literal", value: Number(token.value), pos: token.pos };
+    }
+    if (token.type === "string") {
+      return { kind: "literal", value: token.value, pos: token.pos };
+    }
+    if (token.type === "identifier") {
+      if (token.value === "true" || token.value === "false") {
+        return {
+          kind: "literal",
+          value: token.value === "true",
+          pos: token.pos,
+        };
+      }
+      if (token.value === "null" || token.value === "undefined") {
+        return { kind: "literal", value: null, pos: token.pos };
+      }
+      if (isOperator("(")) {
+        return buildCall(token.value, parseArguments(), token);
+      }
+      return { kind: "identifier", name: token.value, pos: token.pos };
+    }
+    if (isOperator("(", token)) {
+      const inner = nested(parseOr);
+      expect(")");
+      return inner;
+    }
+    if (isOperator("[", token)) {
+      count(token);
+      const items: ExpressionNode[] = [];
+      if (!isOperator("]")) {
+        do {
+          items.push(nested(parseOr));
+        } while (isOperator(",") && next());
+      }
+      expect("]");
+      return { kind: "array", items, pos: token.pos };
+    }
+
+    return fail(`Unexpected ${describe(token)}`, token);
+  };
+
+  const parsePostfix = (): ExpressionNode => {
+    let node = parsePrimary();
+
+    for (;;) {
+      const token = peek();
+      if (isOperator(".", token) || isOperator("?.", token)) {
+        next();
+        const name = next();
+        if (name.type !== "identifier") {
+          fail(`Expected a property name but found ${describe(name)}`, name);
+        }
+        if (isOperator("(")) {
+          // Method sugar: `x.startsWith("a")` is `startsWith(x, "a")`;
+          // `"^a".test(x)` reads the other way round, like a RegExp
+          const args = parseArguments();
+          node =
+            name.value === "test" && args.length
+              ? buildCall(name.value, [args[0], node, ...args.slice(1)], name)
+              : buildCall(name.value, [node, ...args], name);
+        } else {
+          count(name);
+          node = {
+            kind: "member",
+            object: node,
+            property: name.value,
+            pos: name.pos,
+          };
+        }
+        continue;
+      }
+      if (isOperator("[", token)) {
+        next();
+        count(token);
+        const property = nested(parseOr);
+        expect("]");
+        node = { kind: "member", object: node, property, pos: token.pos };
+        continue;
+      }
+      return node;
+    }
+  };
+
+  const parseUnary = (): ExpressionNode => {
+    const token = peek();
+    if (isOperator("!", token) || isOperator("-", token)) {
+      next();
+      count(token);
+      const operand = nested(parseUnary);
+      return {
+        kind: "unary",
+        op: token.value as "!" | "-",
+        operand,
+        pos: token.pos,
+      };
+    }
+    return parsePostfix();
+  };
+
+  const parseBinaryLevel =
+    (operand: () => ExpressionNode, operators: string[]) =>
+    (): ExpressionNode => {
+      let left = operand();
+      while (operators.some((op) => isOperator(op))) {
+        const token = next();
+        count(token);
+        left = binary(token.value, left, operand(), token.pos);
+      }
+      return left;
+    };
+
+  const parseMultiplicative = parseBinaryLevel(parseUnary, ["*", "/", "%"]);
+  const parseAdditive = parseBinaryLevel(parseMultiplicative, ["+", "-"]);
+
+  const parseComparison = (): ExpressionNode => {
+    let left = parseAdditive();
+    for (;;) {
+      const token = peek();
+      if (token.type === "operator" && COMPARISON_OPERATORS.has(token.value)) {
+        next();
+        count(token);
+        left = binary(token.value, left, parseAdditive(), token.pos);
+        continue;
+      }
+      if (isKeyword("in", token)) {
+        next();
+        count(token);
+        left = binary("in", left, parseAdditive(), token.pos);
+        continue;
+      }
+      if (isKeyword("not", token) && isKeyword("in", tokens[index + 1])) {
+        index += 2;
+        count(token);
+        left = {
+          kind: "unary",
+          op: "!",
+          operand: binary("in", left, parseAdditive(), token.pos),
+          pos: token.pos,
+        };
+        continue;
+      }
+      return left;
+    }
+  };
+
+  // `not` binds looser than comparisons: `not a == b` is `not (a == b)`
+  const parseNot = (): ExpressionNode => {
+    const token = peek();
+    if (isKeyword("not", token)) {
+      next();
+      count(token);
+      const operand = nested(parseNot);
+      return { kind: "unary", op: "!", operand, pos: token.pos };
+    }
+    return parseComparison();
+  };
+
+  const parseAnd = (): ExpressionNode => {
+    let left = parseNot();
+    while (isOperator("&&") || isKeyword("and")) {
+      const token = next();
+      count(token);
+      left = binary("&&", left, parseNot(), token.pos);
+    }
+    return left;
+  };
+
+  function parseOr(): ExpressionNode {
+    let left = parseAnd();
+    while (isOperator("||") || isKeyword("or")) {
+      const token = next();
+      count(token);
+      left = binary("||", left, parseAnd(), token.pos);
+    }
+    return left;
+  }
+
+  return {
+    parse(): ExpressionNode {
+      if (peek().type === "eof") {
+        fail("Expression is empty");
+      }
+      const node = parseOr();
+      if (peek().type !== "eof") {
+        fail(`Unexpected ${describe(peek())}`);
+      }
+      return node;
+    },
+  };
+}
+
+const parseCache = new Map<string, ExpressionNode>();
+const PARSE_CACHE_LIMIT = 500;
+
+/** Parses an expression, throwing `FlowExpressionError` with its position. */
+export function parseFlowExpression(source: string): ExpressionNode {
+  const cached = parseCache.get(source);
+  if (cached) return cached;
+
+  let node: ExpressionNode;
+  try {
+    node = createParser(source).parse();
+  } catch (error) {
+    // The guards should stop the parser first; a stack overflow is still
+    // reported as an invalid expression rather than a crash
+    if (error instanceof RangeError) {
+      throw new FlowExpressionError("Expression is too complex", source, 0);
+    }
+    throw error;
+  }
+  if (parseCache.size >= PARSE_CACHE_LIMIT) parseCache.clear();
+  parseCache.set(source, node);
+  return node;
+}
+
+/** Returns the syntax error in `source`, or `null` when it is valid. */
+export function validateFlowExpression(
+  source: string,
+): FlowExpressionError | null {
+  try {
+    parseFlowExpression(source);
+    return null;
+  } catch (error) {
+    if (error instanceof FlowExpressionError) return error;
+    throw error;
+  }
+}
+
+/* ===== Evaluator ===== */
+
+const readProperty = (object: unknown, key: unknown): unknown => {
+  if (object === null || object === undefined) return null;
+
+  if (typeof object === "string" || Array.isArray(object)) {
+    if (key === "length") return object.length;
+    const position = toNumber(key);
+    return position !== null && Number.isInteger(position)
+      ? (object[position < 0 ? object.length + position : position] ?? null)
+      : null;
+  }
+
+  if (typeof object === "object") {
+    const name = toText(key);
+    return hasOwn(object, name)
+      ? ((object as Record<string, unknown>)[name] ?? null)
+      : null;
+  }
+
+  return null;
+};
+
+const isTruthy = (value: unknown) => !!value;
+
+function evaluate(
+  node: ExpressionNode,
+  scope: Record<string, unknown>,
+): unknown {
+  switch (node.kind) {
+    case "literal":
+      return node.value;
+
+    case "identifier":
+      return node.name === "context" ? scope : readProperty(scope, node.name);
+
+    case "member":
+      return readProperty(
+        evaluate(node.object, scope),
+        typeof node.property === "string"
+          ? node.property
+          : evaluate(node.property, scope),
+      );
+
+    case "array":
+      return node.items.map((item) => evaluate(item, scope));
+
+    case "unary": {
+      const value = evaluate(node.operand, scope);
+      if (node.op === "!") return !isTruthy(value);
+      const number = toNumber(value);
+      return number === null ? null : -number;
+    }
+
+    case "call":
+      return FUNCTIONS[node.name].run(
+        ...node.args.map((arg) => evaluate(arg, scope)),
+      );
+
+    case "binary": {
+      if (node.op === "&&") {
+        const left = evaluate(node.left, scope);
+        return isTruthy(left) ? evaluate(node.right, scope) : left;
+      }
+      if (node.op === "||") {
+        const left = evaluate(node.left, scope);
+        return isTruthy(left) ? left : evaluate(node.right, scope);
+      }
+
+      const left = evaluate(node.left, scope);
+      const right = evaluate(node.right, scope);
+
+      switch (node.op) {
+        case "==":
+          return looseEquals(left, right);
+        case "!=":
+          return !looseEquals(left, right);
+        case "===":
+          return (left ?? null) === (right ?? null);
+        case "!==":
+          return (left ?? null) !== (right ?? null);
+        case "<":
+        case "<=":
+        case ">":
+        case ">=": {
+          const order = compareValues(left, right);
+          if (order === null) return false;
+          return node.op === "<"
+            ? order < 0
+            : node.op === "<="
+              ? order <= 0
+              : node.op === ">"
+                ? order > 0
+                : order >= 0;
+        }
+        case "in":
+          return contains(right, left);
+        case "+": {
+          // Numeric when both sides coerce to numbers, otherwise concatenation
+          const x = toNumber(left);
+          const y = toNumber(right);
+          return x !== null && y !== null
+            ? x + y
+            : toText(left) + toText(right);
+        }
+        default: {
+          const x = toNumber(left);
+          const y = toNumber(right);
+          if (x === null || y === null) return null;
+          if (node.op === "-") return x - y;
+          if (node.op === "*") return x * y;
+          if (y === 0) return null;
+          return node.op === "/" ? x / y : x % y;
+        }
+      }
+    }
+  }
+}
+
+/** Evaluates an expression (source or parsed) against the session context. */
+export function evaluateFlowExpression(
+  expression: string | ExpressionNode,
+  context: Record<string, unknown>,
+): unknown {
+  const node =
+    typeof expression === "string"
+      ? parseFlowExpression(expression)
+      : expression;
+  return evaluate(node, context);
+}
+
+export function evaluateFlowCondition(
+  expression: string,
+  context: Record<string, unknown>,
+): boolean {
+  return isTruthy(evaluateFlowExpression(expression, context));
+}
@@ -0,0 +1,172 @@
+import type { z } from "zod";
+
+import type { QuestionDataSchema } from "./flow-schema";
+
+/* Answer validation for `question` nodes. Each answer type parses the raw
+ * reply into the value stored in the session context (numbers as numbers,
+ * dates as YYYY-MM-DD, choices as the configured choice) or explains why it
+ * was rejected. */
+
+type QuestionData = z.infer<typeof QuestionDataSchema>;
+
+export type QuestionAnswerResult =
+  { valid: true; value: string | number } | { valid: false; reason: string };
+
+// Regexes run on customer input; cap the subject to bound backtracking
+const MAX_PATTERN_INPUT_LENGTH = 1000;
+
+export const DEFAULT_QUESTION_RETRY_TEXT: Record<
+  QuestionData["answerType"],
+  string
+> = {
+  text: "Sorry, I didn't get that. Please try again.",
+  number: "Please reply with a number.",
+  email: "Please reply with a valid email address.",
+  phone: "Please reply with a valid phone number, including the area code.",
+  date: "Please reply with a date, for example 31/12/2025.",
+  regex: "That doesn't look right. Please try again.",
+  choice: "Please reply with one of the available choices.",
+};
+
+const stripDiacritics = (value: string) =>
+  value.normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+
+const normalizeChoice = (value: string) =>
+  stripDiacritics(value).trim().toLowerCase().replace(/\s+/g, " ");
+
+const invalid = (reason: string): QuestionAnswerResult => ({
+  valid: false,
+  reason,
+});
+
+const parseNumber = (raw: string): number | null => {
+  let text = raw.replace(/\s+/g, "");
+  // "12,5" is a decimal comma; "1,234.5" and "1.234,5" use grouping
+  if (text.includes(",") && text.includes(".")) {
+    text =
+      text.lastIndexOf(",") > text.lastIndexOf(".")
+        ? text.replace(/\./g, "").replace(",", ".")
+        : text.replace(/,/g, "");
+  } else if (/^-?\d+,\d+$/.test(text)) {
+    text = text.replace(",", ".");
+  }
+  if (!/^[-+]?(?:\d+\.?\d*|\.\d+)$/.test(text)) return null;
+  const parsed = Number(text);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+const toIsoDate = (year: number, month: number, day: number) => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+};
+
+const parseDate = (raw: string, order: QuestionData["dateOrder"]) => {
+  const iso = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(raw);
+  if (iso) {
+    return toIsoDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+  }
+
+  const local = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/.exec(raw);
+  if (!local) return null;
+
+  const [first, second] = [Number(local[1]), Number(local[2])];
+  const year =
+    local[3].length === 2 ? 2000 + Number(local[3]) : Number(local[3]);
+  return order === "mdy"
+    ? toIsoDate(year, first, second)
+    : toIsoDate(year, second, first);
+};
+
+export function validateQuestionAnswer(
+  data: Partial<QuestionData>,
+  input: string,
+): QuestionAnswerResult {
+  const answer = input.trim();
+  if (!answer) {
+    return invalid("empty");
+  }
+
+  switch (data.answerType ?? "text") {
+    case "number": {
+      const value = parseNumber(answer);
+      if (value === null) return invalid("not_a_number");
+      if (data.min !== undefined && value < data.min) {
+        return invalid("below_min");
+      }
+      if (data.max !== undefined && value > data.max) {
+        return invalid("above_max");
+      }
+      return { valid: true, value };
+    }
+
+    case "email": {
+      const value = answer.toLowerCase();
+      return /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/.test(value)
+        ? { valid: true, value }
+        : invalid("invalid_email");
+    }
+
+    case "phone": {
+      if (!/^\+?[\d\s().-]+$/.test(answer)) return invalid("invalid_phone");
+      const digits = answer.replace(/\D/g, "");
+      // E.164 numbers have at most 15 digits
+      if (digits.length < 7 || digits.length > 15) {
+        return invalid("invalid_phone");
+      }
+      return {
+        valid: true,
+        value: answer.startsWith("+") ? `+${digits}` : digits,
+      };
+    }
+
+    case "date": {
+      const value = parseDate(answer, data.dateOrder ?? "dmy");
+      return value ? { valid: true, value } : invalid("invalid_date");
+    }
+
+    case "regex": {
+      if (!data.pattern) return invalid("no_pattern");
+      try {
+        const regex = new RegExp(data.pattern, data.patternFlags ?? "");
+        return regex.test(answer.slice(0, MAX_PATTERN_INPUT_LENGTH))
+          ? { valid: true, value: answer }
+          : invalid("no_match");
+      } catch {
+        return invalid("no_pattern");
+      }
+    }
+
+    case "choice": {
+      const choices = data.choices ?? [];
+      const normalized = normalizeChoice(answer);
+      const byText = choices.find(
+        (choice) => normalizeChoice(choice) === normalized,
+      );
+      if (byText) return { valid: true, value: byText };
+
+      // "2" picks the second choice when the prompt lists them numbered
+      const position = /^\d+$/.test(answer) ? Number(answer) : NaN;
+      const byPosition = choices[position - 1];
+      return byPosition
+        ? { valid: true, value: byPosition }
+        : invalid("unknown_choice");
+    }
+
+    default: {
+      if (data.minLength !== undefined && answer.length < data.minLength) {
+        return invalid("too_short");
+      }
+      if (data.maxLength !== undefined && answer.length > data.maxLength) {
+        return invalid("too_long");
+      }
+      return { valid: true, value: answer };
+    }
+  }
+}
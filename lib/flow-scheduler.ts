@@ -0,0 +1,128 @@
+import prisma from "./prisma";
+import { resumeScheduledSession } from "./meta";
+
+/* Resumes sessions whose `Session.wakeAt` is due: delay nodes that should
+ * continue and sessions waiting on the customer whose inactivity reminder or
+ * timeout has come up. Deadlines live on the row, so they survive restarts;
+ * this loop polls for due sessions and hands each one back to the executor,
+ * which decides what the wake-up means for the paused node. Between polls it
+ * sleeps until the next known wake-up, capped at the poll interval so delays
+ * scheduled in the meantime are picked up too. */
+
+type SchedulerConfig = {
+  pollIntervalMs: number;
+  batchSize: number;
+};
+
+const parsePositiveInt = (raw: string | undefined, fallback: number) => {
+  const parsed = Number.parseInt(raw ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+const schedulerConfig: SchedulerConfig = {
+  pollIntervalMs: parsePositiveInt(process.env.FLOW_SCHEDULER_POLL_MS, 5000),
+  batchSize: parsePositiveInt(process.env.FLOW_SCHEDULER_BATCH_SIZE, 50),
+};
+
+let timer: ReturnType<typeof setTimeout> | null = null;
+let running = false;
+let resumed = 0;
+let failed = 0;
+let lastRunAt: Date | null = null;
+
+/** Resumes every due session, oldest first. Returns how many were resumed. */
+export async function runDueFlowWakeUps(now: Date = new Date()) {
+  let count = 0;
+
+  for (;;) {
+    const due = (await prisma.session.findMany({
+      where: {
+        status: "Paused",
+        wakeAt: { lte: now },
+        flow: { status: "Active" },
+      },
+      select: { id: true },
+      orderBy: { wakeAt: "asc" },
+      take: schedulerConfig.batchSize,
+    })) as Array<{ id: string }>;
+
+    let batchResumed = 0;
+    for (const { id } of due) {
+      try {
+        if (await resumeScheduledSession(id)) {
+          batchResumed++;
+          resumed++;
+        }
+      } catch (error) {
+        failed++;
+        console.error(`Failed to resume scheduled session ${id}:`, error);
+      }
+    }
+
+    count += batchResumed;
+    // A full batch that resumed nothing would come back unchanged
+    if (due.length < schedulerConfig.batchSize || !batchResumed) {
+      break;
+    }
+  }
+
+  lastRunAt = now;
+  return count;
+}
+
+const nextWakeAt = async (): Promise<Date | null> => {
+  const next = (await prisma.session.findFirst({
+    where: {
+      status: "Paused",
+      wakeAt: { not: null },
+      flow: { status: "Active" },
+    },
+    select: { wakeAt: true },
+    orderBy: { wakeAt: "asc" },
+  })) as { wakeAt: Date | string | null } | null;
+  return next?.wakeAt ? new Date(next.wakeAt) : null;
+};
+
+const schedule = (delayMs: number) => {
+  if (!running) return;
+  timer = setTimeout(() => void tick(), Math.max(0, delayMs));
+  timer.unref?.();
+};
+
+async function tick() {
+  timer = null;
+  let delayMs = schedulerConfig.pollIntervalMs;
+
+  try {
+    await runDueFlowWakeUps();
+    const next = await nextWakeAt();
+    if (next) {
+      delayMs = Math.min(delayMs, next.getTime() - Date.now());
+    }
+  } catch (error) {
+    console.error("Flow scheduler poll failed:", error);
+  } finally {
+    schedule(delayMs);
+  }
+}
+
+export function startFlowScheduler() {
+  if (running) return;
+  running = true;
+  schedule(0);
+}
+
+export function stopFlowScheduler() {
+  running = false;
+  if (timer) {
+    clearTimeout(timer);
+    timer = null;
+  }
+}
+
+export const getFlowSchedulerMetrics = () => ({
+  pollIntervalMs: schedulerConfig.pollIntervalMs,
+  resumed,
+  failed,
+  lastRunAt: lastRunAt?.toISOString() ?? null,
+});
@@ -11,26 +11,221 @@ export const waTextLimit = 4096;
 
 export const BaseDataSchema = z.object({
   name: z.string().min(1).max(60).default(""),
+  // Times the node may run between two pauses; overrides the flow default
+  maxVisits: z.number().int().min(1).max(1000).optional(),
 });
 
 export const TriggerDataSchema = BaseDataSchema.extend({
   keyword: z.string().min(1).max(64),
 });
 
-export const TemplateParameterSchema = z.object({
-  component: z.string().min(1),
-  type: z.literal("text").default("text"),
-  value: z.string().max(1024).default(""),
-  subType: z.string().max(60).optional(),
-  index: z.number().int().min(0).optional(),
+export const templateParameterTypes = [
+  "text",
+  "currency",
+  "date_time",
+  "image",
+  "document",
+  "video",
+  "location",
+  "payload",
+  "coupon_code",
+  "action",
+] as const;
+
+export const templateButtonSubTypes = [
+  "quick_reply",
+  "url",
+  "copy_code",
+  "flow",
+] as const;
+
+const HEADER_ONLY_PARAMETER_TYPES = new Set([
+  "image",
+  "document",
+  "video",
+  "location",
+]);
+
+const BUTTON_PARAMETER_TYPES: Record<string, readonly string[]> = {
+  quick_reply: ["payload"],
+  url: ["text"],
+  copy_code: ["coupon_code"],
+  flow: ["action"],
+};
+
+const isBlank = (value?: string | null) => !value?.trim();
+
+// Every field except `component`, `type`, `subType` and `index` accepts
+// `{{var}}` placeholders, so numbers are kept as strings until send time.
+export const TemplateParameterSchema = z
+  .object({
+    component: z.string().min(1),
+    type: z.enum(templateParameterTypes).default("text"),
+    // Text, payload, coupon code, flow token, or the fallback shown for
+    // currency and date_time parameters
+    value: z.string().max(1024).default(""),
+    subType: z.string().max(60).optional(),
+    index: z.number().int().min(0).optional(),
+    currencyCode: z.string().max(3).optional(),
+    amount: z.string().max(64).optional(),
+    mediaUrl: z.string().max(2048).optional(),
+    mediaId: z.string().max(256).optional(),
+    filename: z.string().max(240).optional(),
+    latitude: z.string().max(64).optional(),
+    longitude: z.string().max(64).optional(),
+    locationName: z.string().max(1024).optional(),
+    address: z.string().max(1024).optional(),
+  })
+  .superRefine((param, ctx) => {
+    const component = param.component.trim().toLowerCase();
+    const subType = param.subType?.trim().toLowerCase() ?? "";
+
+    if (HEADER_ONLY_PARAMETER_TYPES.has(param.type) && component !== "header") {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `${param.type} parameters are only allowed in the header`,
+        path: ["component"],
+      });
+    }
+
+    if (component === "button") {
+      const allowed = BUTTON_PARAMETER_TYPES[subType];
+      if (!allowed) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Button parameters need a subType (${templateButtonSubTypes.join(", ")})`,
+          path: ["subType"],
+        });
+      } else if (!allowed.includes(param.type)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `${subType} buttons take ${allowed.join(" or ")} parameters`,
+          path: ["type"],
+        });
+      }
+      if (param.index === undefined) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: "Button parameters need the button index",
+          path: ["index"],
+        });
+      }
+    } else if (["payload", "coupon_code", "action"].includes(param.type)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `${param.type} parameters are only allowed in buttons`,
+        path: ["component"],
+      });
+    }
+
+    switch (param.type) {
+      case "currency":
+        if (!/^[A-Za-z]{3}$/.test(param.currencyCode?.trim() ?? "")) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: "Currency parameters need an ISO 4217 currency code",
+            path: ["currencyCode"],
+          });
+        }
+        if (isBlank(param.amount)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: "Currency parameters need an amount",
+            path: ["amount"],
+          });
+        }
+        if (isBlank(param.value)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: "Currency parameters need a fallback value",
+            path: ["value"],
+          });
+        }
+        break;
+      case "date_time":
+        if (isBlank(param.value)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: "Date/time parameters need a fallback value",
+            path: ["value"],
+          });
+        }
+        break;
+      case "image":
+      case "document":
+      case "video":
+        if (isBlank(param.mediaUrl) && isBlank(param.mediaId)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: "Media header parameters need a media URL or media ID",
+            path: ["mediaUrl"],
+          });
+        }
+        break;
+      case "location":
+        if (isBlank(param.latitude) || isBlank(param.longitude)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: "Location header parameters need latitude and longitude",
+            path: [isBlank(param.latitude) ? "latitude" : "longitude"],
+          });
+        }
+        break;
+      case "payload":
+      case "coupon_code":
+      case "action":
+        if (isBlank(param.value)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `${param.type} parameters need a value`,
+            path: ["value"],
+          });
+        }
+        break;
+    }
+  });
+
+// Sent instead of a free-form message once the 24h customer service window
+// has closed, since Meta only delivers templates then
+export const FallbackTemplateSchema = z.object({
+  name: z.string().min(1).max(512),
+  language: z.string().min(1).max(24),
+  parameters: z.array(TemplateParameterSchema).default([]),
 });
 
+// While a session waits for the customer: remind after `reminderMinutes`,
+// then follow the "timeout" edge (or expire the session) after
+// `timeoutMinutes`. Set per flow and overridden per node.
+export const InactivitySchema = z
+  .object({
+    enabled: z.boolean().default(true),
+    reminderMinutes: z.number().int().min(1).max(43200).optional(),
+    reminderText: z.string().min(1).max(waTextLimit).optional(),
+    timeoutMinutes: z.number().int().min(1).max(43200).optional(),
+  })
+  .superRefine((value, ctx) => {
+    if (
+      value.reminderMinutes !== undefined &&
+      value.timeoutMinutes !== undefined &&
+      value.reminderMinutes >= value.timeoutMinutes
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "The reminder must come before the timeout",
+        path: ["reminderMinutes"],
+      });
+    }
+  });
+
 export const MessageDataSchema = BaseDataSchema.extend({
   text: z.string().max(waTextLimit).default(""),
   useTemplate: z.boolean().default(false),
   templateName: z.string().max(512).optional(),
   templateLanguage: z.string().max(24).optional(),
   templateParameters: z.array(TemplateParameterSchema).default([]),
+  fallbackTemplate: FallbackTemplateSchema.optional(),
+  // Quote the customer's message this step is answering
+  quoteReply: z.boolean().default(false),
 }).superRefine((value, ctx) => {
   if (value.useTemplate) {
     if (!value.templateName?.trim()) {
@@ -59,8 +254,46 @@ export const MessageDataSchema = BaseDataSchema.extend({
   }
 });
 
+// WhatsApp shows at most 3 reply buttons; longer menus go out as a list
+export const waMaxReplyButtons = 3;
+
+export const OptionsListSectionSchema = z.object({
+  title: z.string().min(1).max(24),
+  // Indexes into `options`, in display order
+  options: z.array(z.number().int().min(0)).min(1),
+});
+
 export const OptionsDataSchema = BaseDataSchema.extend({
   options: z.array(z.string().min(1).max(30)).min(2).max(10),
+  // "auto" sends buttons up to three options and a list above that
+  display: z.enum(["auto", "list"]).default("auto"),
+  listButton: z.string().min(1).max(20).optional(),
+  // Row descriptions, aligned with `options`
+  descriptions: z.array(z.string().max(72)).default([]),
+  sections: z.array(OptionsListSectionSchema).max(10).default([]),
+  fallbackTemplate: FallbackTemplateSchema.optional(),
+  quoteReply: z.boolean().default(false),
+  inactivity: InactivitySchema.optional(),
+}).superRefine((data, ctx) => {
+  const seen = new Set<number>();
+  data.sections.forEach((section, sectionIndex) => {
+    section.options.forEach((optionIndex, position) => {
+      if (optionIndex >= data.options.length) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Option ${optionIndex} does not exist`,
+          path: ["sections", sectionIndex, "options", position],
+        });
+      } else if (seen.has(optionIndex)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Option ${optionIndex} is already in another section`,
+          path: ["sections", sectionIndex, "options", position],
+        });
+      }
+      seen.add(optionIndex);
+    });
+  });
 });
 
 export const WhatsAppFlowDataSchema = BaseDataSchema.extend({
@@ -68,10 +301,28 @@ export const WhatsAppFlowDataSchema = BaseDataSchema.extend({
   body: z.string().min(1).max(1024),
   footer: z.string().max(60).optional(),
   cta: z.string().max(40).optional(),
+  // Pause until the user submits the Flow and resume on the "completed" edge
+  waitForResponse: z.boolean().default(true),
+  responseVariable: z.string().min(1).max(50).default("flowResponse"),
+  // Follow the "timeout" edge when the submission arrives after this window
+  timeoutMinutes: z.number().int().min(1).max(43200).optional(),
+  inactivity: InactivitySchema.optional(),
 });
 
 export const DelayDataSchema = BaseDataSchema.extend({
-  seconds: z.number().min(1).max(3600).default(1),
+  // The session is paused and resumed by the flow scheduler, so long waits
+  // (hours or days) don't hold anything open
+  seconds: z
+    .number()
+    .min(1)
+    .max(30 * 24 * 60 * 60)
+    .default(1),
+  // Absolute wake-up time, e.g. "{{context.reminderAt}}"; wins over `seconds`
+  // when it interpolates to a future date
+  until: z.string().max(200).optional(),
+  // Show "typing…" to the customer while waiting; the indicator marks the
+  // message read, so it only shows when `settings.readReceipts` is on
+  showTyping: z.boolean().default(true),
 });
 
 export const ConditionDataSchema = BaseDataSchema.extend({
@@ -84,6 +335,8 @@ export const APICallDataSchema = BaseDataSchema.extend({
   headers: z.record(z.string(), z.string()).default({}),
   body: z.string().default(""),
   assignTo: z.string().default("apiResult"),
+  // Needs `settings.readReceipts`, as on delay nodes
+  showTyping: z.boolean().default(true),
 });
 
 export const AssignVarDataSchema = BaseDataSchema.extend({
@@ -95,12 +348,16 @@ export const MediaDataSchema = BaseDataSchema.extend({
   mediaType: z.enum(["image", "document", "video", "audio"]).default("image"),
   url: z.string().url().optional(),
   id: z.string().min(1).optional(),
+  // Media library entry (`POST /users/:userId/media`)
+  assetId: z.string().min(1).optional(),
   caption: z.string().max(1024).optional(),
+  fallbackTemplate: FallbackTemplateSchema.optional(),
+  quoteReply: z.boolean().default(false),
 }).superRefine((data, ctx) => {
-  if (!data.url && !data.id) {
+  if (!data.url && !data.id && !data.assetId) {
     ctx.addIssue({
       code: z.ZodIssueCode.custom,
-      message: "Either a media URL or a media ID must be provided.",
+      message: "A media URL, media ID or library asset must be provided.",
       path: ["url"],
     });
   }
@@ -109,6 +366,7 @@ export const MediaDataSchema = BaseDataSchema.extend({
 export const HandoffDataSchema = BaseDataSchema.extend({
   queue: z.string().min(1),
   note: z.string().max(500).optional(),
+  inactivity: InactivitySchema.optional(),
 });
 
 export const EndDataSchema = BaseDataSchema.extend({
@@ -119,10 +377,94 @@ export const GoToDataSchema = BaseDataSchema.extend({
   targetNodeId: z.string().min(1),
 });
 
+export const questionAnswerTypes = [
+  "text",
+  "number",
+  "email",
+  "phone",
+  "date",
+  "regex",
+  "choice",
+] as const;
+
+export const QuestionDataSchema = BaseDataSchema.extend({
+  text: z.string().min(1).max(waTextLimit),
+  answerType: z.enum(questionAnswerTypes).default("text"),
+  // Context path the validated answer is stored at, e.g. "customer.email"
+  variable: z.string().min(1).max(50),
+  // Bounds: characters for text answers, value for numbers
+  minLength: z.number().int().min(0).max(waTextLimit).optional(),
+  maxLength: z.number().int().min(1).max(waTextLimit).optional(),
+  min: z.number().optional(),
+  max: z.number().optional(),
+  // Order of ambiguous dates such as 03/04/2025
+  dateOrder: z.enum(["dmy", "mdy"]).default("dmy"),
+  pattern: z.string().min(1).max(200).optional(),
+  patternFlags: z
+    .string()
+    .regex(/^[imsu]*$/)
+    .max(4)
+    .default(""),
+  choices: z.array(z.string().min(1).max(100)).max(50).default([]),
+  // Sent after an invalid answer; defaults to a hint for the answer type
+  retryText: z.string().max(waTextLimit).optional(),
+  // Invalid answers re-prompted before following the "failed" edge
+  maxRetries: z.number().int().min(0).max(10).default(2),
+  fallbackTemplate: FallbackTemplateSchema.optional(),
+  quoteReply: z.boolean().default(false),
+  inactivity: InactivitySchema.optional(),
+}).superRefine((data, ctx) => {
+  if (data.answerType === "regex") {
+    if (!data.pattern) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "A pattern is required for regex answers",
+        path: ["pattern"],
+      });
+    } else {
+      try {
+        new RegExp(data.pattern, data.patternFlags);
+      } catch (error) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Invalid pattern: ${error instanceof Error ? error.message : String(error)}`,
+          path: ["pattern"],
+        });
+      }
+    }
+  }
+  if (data.answerType === "choice" && !data.choices.length) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "At least one choice is required for choice answers",
+      path: ["choices"],
+    });
+  }
+  if (data.min !== undefined && data.max !== undefined && data.min > data.max) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "min cannot be greater than max",
+      path: ["min"],
+    });
+  }
+  if (
+    data.minLength !== undefined &&
+    data.maxLength !== undefined &&
+    data.minLength > data.maxLength
+  ) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "minLength cannot be greater than maxLength",
+      path: ["minLength"],
+    });
+  }
+});
+
 export const flowNodeTypes = [
   "trigger",
   "message",
   "options",
+  "question",
   "delay",
   "condition",
   "api",
@@ -136,6 +478,23 @@ export const flowNodeTypes = [
 
 export type FlowNodeType = (typeof flowNodeTypes)[number];
 
+// The shape the executor expects each node's `data` to have, by node type
+export const flowNodeDataSchemas: Record<FlowNodeType, z.ZodType> = {
+  trigger: TriggerDataSchema,
+  message: MessageDataSchema,
+  options: OptionsDataSchema,
+  question: QuestionDataSchema,
+  delay: DelayDataSchema,
+  condition: ConditionDataSchema,
+  api: APICallDataSchema,
+  assign: AssignVarDataSchema,
+  media: MediaDataSchema,
+  whatsapp_flow: WhatsAppFlowDataSchema,
+  handoff: HandoffDataSchema,
+  goto: GoToDataSchema,
+  end: EndDataSchema,
+};
+
 const coordinateSchema = z.coerce.number().finite().catch(0);
 
 const FlowNodeSchemaInternal = z
@@ -163,15 +522,36 @@ const FlowEdgeSchemaInternal = z
   })
   .passthrough();
 
+export const FlowSettingsSchema = z.object({
+  inactivity: InactivitySchema.optional(),
+  // Loop guards for a single run (until the flow pauses or ends)
+  maxSteps: z.number().int().min(1).max(5000).optional(),
+  maxNodeVisits: z.number().int().min(1).max(1000).optional(),
+  // Mark the customer's messages as read (blue ticks) when the flow handles
+  // them; also required for typing indicators on delay/API nodes
+  readReceipts: z.boolean().optional(),
+});
+
 export const FlowDefinitionSchema = z
   .object({
     nodes: z.array(FlowNodeSchemaInternal).default([]),
     edges: z.array(FlowEdgeSchemaInternal).default([]),
+    settings: FlowSettingsSchema.optional(),
+  })
+  .default({ nodes: [], edges: [] });
+
+// Settings are checked separately so stored flows can be read leniently
+const FlowDefinitionInputSchema = z
+  .object({
+    nodes: z.array(FlowNodeSchemaInternal).default([]),
+    edges: z.array(FlowEdgeSchemaInternal).default([]),
+    settings: z.unknown().optional(),
   })
   .default({ nodes: [], edges: [] });
 
 export type FlowNodePayload = z.infer<typeof FlowNodeSchemaInternal>;
 export type FlowEdgePayload = z.infer<typeof FlowEdgeSchemaInternal>;
+export type FlowSettings = z.infer<typeof FlowSettingsSchema>;
 export type FlowDefinition = z.infer<typeof FlowDefinitionSchema>;
 
 const isPlainObject = (value: unknown): value is Record<string, unknown> =>
@@ -221,8 +601,48 @@ const parseFlowInput = (input: unknown): unknown => {
   return input ?? {};
 };
 
-export const sanitizeFlowDefinition = (input: unknown): FlowDefinition => {
-  const parsed = FlowDefinitionSchema.parse(parseFlowInput(input));
+const parseFlowSettings = (
+  input: unknown,
+  strict: boolean,
+): FlowSettings | undefined => {
+  if (input === undefined || input === null) return undefined;
+
+  if (strict) {
+    const result = FlowSettingsSchema.safeParse(input);
+    if (!result.success) {
+      const [issue] = result.error.issues;
+      const path = issue?.path.length ? `${issue.path.join(".")}: ` : "";
+      throw new FlowSanitizationError(
+        `Invalid flow settings: ${path}${issue?.message ?? "invalid value"}`,
+      );
+    }
+    return result.data;
+  }
+
+  // Keep every setting that still parses and drop the rest, so a stored flow
+  // saved under older rules keeps running on the defaults
+  if (!isPlainObject(input)) return undefined;
+  const settings: Record<string, unknown> = {};
+  for (const [key, schema] of Object.entries(FlowSettingsSchema.shape)) {
+    if (input[key] === undefined) continue;
+    const result = schema.safeParse(input[key]);
+    if (result.success && result.data !== undefined) {
+      settings[key] = result.data;
+    }
+  }
+  return settings as FlowSettings;
+};
+
+/**
+ * Normalizes a flow definition. With `strict`, invalid settings are rejected;
+ * otherwise (reading stored flows) they fall back to their defaults.
+ */
+export const sanitizeFlowDefinition = (
+  input: unknown,
+  options: { strict?: boolean } = {},
+): FlowDefinition => {
+  const parsed = FlowDefinitionInputSchema.parse(parseFlowInput(input));
+  const settings = parseFlowSettings(parsed.settings, options.strict ?? false);
   const nodes = parsed.nodes.map((node) => {
     const clone = deepClone(node);
     const position = isPlainObject(clone.position) ? clone.position : {};
@@ -255,7 +675,9 @@ export const sanitizeFlowDefinition = (input: unknown): FlowDefinition => {
     };
   });
 
-  return { nodes, edges };
+  return settings
+    ? { nodes, edges, settings: deepClone(settings) }
+    : { nodes, edges };
 };
 
 export const emptyFlowDefinition: FlowDefinition = { nodes: [], edges: [] };
@@ -4,18 +4,22 @@ import { z } from "zod";
 import {
   FlowSanitizationError,
   emptyFlowDefinition,
+  flowNodeDataSchemas,
   sanitizeFlowDefinition,
   type FlowDefinition,
 } from "./flow-schema";
+import { validateFlowExpression } from "./flow-expression";
 import prisma from "./prisma";
 
 export class FlowValidationError extends Error {
   status: number;
+  details?: unknown;
 
-  constructor(message: string, status = 400) {
+  constructor(message: string, status = 400, details?: unknown) {
     super(message);
     this.name = "FlowValidationError";
     this.status = status;
+    this.details = details;
   }
 }
 
@@ -306,6 +310,67 @@ async function ensureUserExists(userId: string): Promise<string> {
   return normalized;
 }
 
+const describeNode = (node: FlowDefinition["nodes"][number]) => {
+  const name = (node.data as { name?: unknown }).name;
+  return typeof name === "string" && name.trim()
+    ? `"${name.trim()}" (${node.id})`
+    : node.id;
+};
+
+/**
+ * Rejects nodes whose `data` does not match the schema for their type. The
+ * executor reads node data as already valid, so a mismatch left in a saved
+ * flow would only surface when a run reaches the node.
+ */
+const assertValidNodeData = (definition: FlowDefinition) => {
+  for (const node of definition.nodes) {
+    const result = flowNodeDataSchemas[node.type].safeParse(node.data);
+    if (result.success) continue;
+
+    const [first] = result.error.issues;
+    const path = first?.path.length ? `${first.path.join(".")}: ` : "";
+    throw new FlowValidationError(
+      `Invalid data in ${node.type} node ${describeNode(node)}: ${path}${first?.message ?? "invalid value"}`,
+      400,
+      {
+        nodeId: node.id,
+        issues: result.error.issues.map((issue) => ({
+          path: issue.path.map(String),
+          message: issue.message,
+        })),
+      },
+    );
+  }
+};
+
+/**
+ * Rejects condition nodes whose expression does not parse, pointing at the
+ * node and the offending line and column. The executor treats a failing
+ * expression as `false`, so catching this at save time avoids silent routing.
+ */
+const assertValidExpressions = (definition: FlowDefinition) => {
+  for (const node of definition.nodes) {
+    if (node.type !== "condition") continue;
+    const expression = (node.data as { expression?: unknown }).expression;
+    if (typeof expression !== "string") continue;
+
+    const error = validateFlowExpression(expression);
+    if (!error) continue;
+
+    throw new FlowValidationError(
+      `Invalid expression in condition node ${describeNode(node)}: ${error.message}`,
+      400,
+      {
+        nodeId: node.id,
+        reason: error.reason,
+        position: error.position,
+        line: error.line,
+        column: error.column,
+      },
+    );
+  }
+};
+
 export async function createFlowForUser(
   userId: string,
   payload: FlowCreateInput,
@@ -315,13 +380,17 @@ export async function createFlowForUser(
   const parsed = flowCreateSchema.parse(payload ?? {});
   let sanitizedDefinition: FlowDefinition;
   try {
-    sanitizedDefinition = sanitizeFlowDefinition(parsed.definition);
+    sanitizedDefinition = sanitizeFlowDefinition(parsed.definition, {
+      strict: true,
+    });
   } catch (error) {
     if (error instanceof FlowSanitizationError) {
       throw new FlowValidationError(error.message, 400);
     }
     throw error;
   }
+  assertValidNodeData(sanitizedDefinition);
+  assertValidExpressions(sanitizedDefinition);
   const definitionValue = toJsonValue(sanitizedDefinition);
 
   const data: Record<string, unknown> = {
@@ -369,13 +438,17 @@ export async function updateFlowById(
   if (hasOwn(parsed, "definition")) {
     let sanitizedDefinition: FlowDefinition;
     try {
-      sanitizedDefinition = sanitizeFlowDefinition(parsed.definition);
+      sanitizedDefinition = sanitizeFlowDefinition(parsed.definition, {
+        strict: true,
+      });
     } catch (error) {
       if (error instanceof FlowSanitizationError) {
         throw new FlowValidationError(error.message, 400);
       }
       throw error;
     }
+    assertValidNodeData(sanitizedDefinition);
+    assertValidExpressions(sanitizedDefinition);
     data.definition = toJsonValue(sanitizedDefinition);
   }
 
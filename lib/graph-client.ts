@@ -0,0 +1,330 @@
+import prisma from "./prisma";
+import {
+  withGraphRetry,
+  type GraphAttempt,
+  type GraphCallFailure,
+} from "./graph-retry";
+
+/* Single entry point for Graph API calls: URL building, credentials,
+ * timeouts, JSON/binary parsing, typed errors, retries and request logs.
+ * `GRAPH_BASE_URL` points every caller at another host (a local sandbox or
+ * a recording proxy) without touching call sites. */
+
+export const GRAPH_VERSION = process.env.GRAPH_API_VERSION?.trim() || "v23.0";
+
+export const GRAPH_BASE_URL = (
+  process.env.GRAPH_BASE_URL?.trim() || "https://graph.facebook.com"
+).replace(/\/+$/, "");
+
+const parsePositiveInt = (raw: string | undefined, fallback: number) => {
+  const parsed = Number.parseInt(raw ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+export const META_API_TIMEOUT_MS = parsePositiveInt(
+  process.env.GRAPH_TIMEOUT_MS,
+  15000,
+);
+
+const LOG_REQUESTS =
+  process.env.GRAPH_LOG_REQUESTS === "true" ||
+  process.env.NODE_ENV === "development";
+
+/** Graph error codes the app reacts to. */
+export const GraphErrorCode = {
+  ApiUnknown: 1,
+  ApiServiceUnavailable: 2,
+  AppRateLimit: 4,
+  UserRateLimit: 17,
+  AccessTokenExpired: 190,
+  RateLimit: 613,
+  AccountRateLimit: 80007,
+  ThroughputReached: 130429,
+  GenericUserError: 131000,
+  ServiceUnavailable: 131016,
+  RecipientNotAllowed: 131030,
+  ReEngagementWindowClosed: 131047,
+  PairRateLimit: 131056,
+  ServerTemporarilyUnavailable: 133004,
+} as const;
+
+export type GraphErrorCodeValue =
+  (typeof GraphErrorCode)[keyof typeof GraphErrorCode];
+
+export type GraphError = {
+  message: string;
+  /** Message Meta intends for end users, when present. */
+  userMessage: string | null;
+  code: number | null;
+  subcode: number | null;
+  type: string | null;
+  isTransient: boolean;
+  traceId: string | null;
+};
+
+export type GraphCredentials = {
+  accessToken: string | null;
+  phoneNumberId: string | null;
+  businessAccountId: string | null;
+};
+
+export type GraphResponse<T = unknown> = {
+  ok: boolean;
+  status: number;
+  headers: Headers;
+  /** Response text; empty for binary responses. */
+  raw: string;
+  json: T | undefined;
+  buffer?: Buffer;
+  error: GraphError | null;
+  attempts: GraphAttempt[];
+};
+
+export type GraphRequestOptions = {
+  method?: "GET" | "POST" | "PUT" | "DELETE";
+  /** Path below `/<version>/`, e.g. `${phoneNumberId}/messages`. */
+  path?: string;
+  /** Absolute URL, for media download links handed out by Graph. */
+  url?: string;
+  accessToken: string;
+  /** JSON-encoded, except `FormData` which goes out as multipart. */
+  body?: unknown;
+  timeoutMs?: number;
+  responseType?: "json" | "buffer";
+  /** Retry transient failures; `idempotent` allows resending after timeouts. */
+  retry?: { idempotent: boolean } | false;
+  /** Wraps the network call, e.g. to pass it through the outbound limiter. */
+  dispatch?: (send: () => Promise<Response>) => Promise<Response>;
+  /** Called for every failed attempt, before the retry decision. */
+  onError?: (error: GraphError, status: number) => void;
+  label?: string;
+};
+
+/** Timeout or network failure; HTTP errors come back as responses. */
+export class GraphRequestError extends Error {
+  kind: "timeout" | "network";
+  attempts: GraphAttempt[] = [];
+
+  constructor(
+    kind: "timeout" | "network",
+    message: string,
+    options?: { cause?: unknown },
+  ) {
+    super(message, options);
+    this.name = "GraphRequestError";
+    this.kind = kind;
+  }
+}
+
+export const graphUrl = (path: string) =>
+  `${GRAPH_BASE_URL}/${GRAPH_VERSION}/${path.replace(/^\/+/, "")}`;
+
+const asNumber = (value: unknown) =>
+  typeof value === "number" && Number.isFinite(value) ? value : null;
+
+const asString = (value: unknown) =>
+  typeof value === "string" && value.trim() ? value.trim() : null;
+
+export const parseGraphError = (
+  json: unknown,
+  fallbackMessage: string,
+): GraphError => {
+  const error =
+    json && typeof json === "object" && "error" in json
+      ? ((json as { error?: Record<string, unknown> }).error ?? {})
+      : {};
+
+  return {
+    message: asString(error.message) ?? fallbackMessage,
+    userMessage: asString(error.error_user_msg),
+    code: asNumber(error.code),
+    subcode: asNumber(error.error_subcode),
+    type: asString(error.type),
+    isTransient: error.is_transient === true,
+    traceId: asString(error.fbtrace_id),
+  };
+};
+
+export const isAccessTokenError = (error: GraphError, status: number) => {
+  if (status === 401 || error.code === GraphErrorCode.AccessTokenExpired) {
+    return true;
+  }
+  const lower = error.message.toLowerCase();
+  return (
+    (status === 400 || status === 403) &&
+    (lower.includes("access token") || lower.includes("session has expired"))
+  );
+};
+
+/** Loads the tenant's Meta credentials, trimmed, with blanks as `null`. */
+export async function getGraphCredentials(
+  userId: string,
+): Promise<GraphCredentials> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      metaAccessToken: true,
+      metaPhoneNumberId: true,
+      metaBusinessAccountId: true,
+    },
+  });
+
+  return {
+    accessToken: user?.metaAccessToken?.trim() || null,
+    phoneNumberId: user?.metaPhoneNumberId?.trim() || null,
+    businessAccountId: user?.metaBusinessAccountId?.trim() || null,
+  };
+}
+
+// Access tokens ride in the query string of some lookaside URLs
+const redactUrl = (url: string) =>
+  url.replace(/(access_token=)[^&]+/gi, "$1***");
+
+async function sendOnce<T>(
+  url: string,
+  options: GraphRequestOptions,
+): Promise<Omit<GraphResponse<T>, "attempts">> {
+  const method = options.method ?? "GET";
+  const headers: Record<string, string> = {
+    Authorization: `Bearer ${options.accessToken}`,
+  };
+  const multipart = options.body instanceof FormData;
+  if (options.body !== undefined && !multipart) {
+    headers["Content-Type"] = "application/json";
+  }
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const startedAt = Date.now();
+
+  // The timeout starts when the request leaves, not while it is dispatched
+  const send = () => {
+    const controller = new AbortController();
+    timer = setTimeout(
+      () => controller.abort(),
+      options.timeoutMs ?? META_API_TIMEOUT_MS,
+    );
+    return fetch(url, {
+      method,
+      headers,
+      body:
+        options.body === undefined
+          ? undefined
+          : multipart
+            ? (options.body as FormData)
+            : JSON.stringify(options.body),
+      signal: controller.signal,
+    });
+  };
+
+  try {
+    const response = options.dispatch
+      ? await options.dispatch(send)
+      : await send();
+
+    let raw = "";
+    let json: T | undefined;
+    let buffer: Buffer | undefined;
+
+    if (options.responseType === "buffer" && response.ok) {
+      buffer = Buffer.from(await response.arrayBuffer());
+    } else {
+      raw = await response.text().catch(() => "");
+      if (raw) {
+        try {
+          json = JSON.parse(raw) as T;
+        } catch {
+          json = undefined;
+        }
+      }
+    }
+
+    const error = response.ok
+      ? null
+      : parseGraphError(
+          json,
+          raw || response.statusText || "Meta API request failed",
+        );
+
+    if (error) {
+      console.error(
+        `Graph ${method} ${redactUrl(url)} -> ${response.status} (code ${error.code ?? "n/a"}, ${Date.now() - startedAt}ms): ${error.message}`,
+      );
+      options.onError?.(error, response.status);
+    } else if (LOG_REQUESTS) {
+      console.log(
+        `Graph ${method} ${redactUrl(url)} -> ${response.status} (${Date.now() - startedAt}ms)`,
+      );
+    }
+
+    return {
+      ok: response.ok,
+      status: response.status,
+      headers: response.headers,
+      raw,
+      json,
+      buffer,
+      error,
+    };
+  } catch (error) {
+    if (error instanceof Error && error.name === "AbortError") {
+      console.error(`Graph ${method} ${redactUrl(url)} timed out.`);
+      throw new GraphRequestError("timeout", "Request to Meta timed out", {
+        cause: error,
+      });
+    }
+    if (error instanceof TypeError) {
+      // fetch() rejects with a TypeError for DNS, socket and TLS failures
+      console.error(`Graph ${method} ${redactUrl(url)} failed:`, error);
+      throw new GraphRequestError("network", error.message, { cause: error });
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+const toRetryFailure = (
+  response: Omit<GraphResponse, "attempts">,
+): GraphCallFailure | null =>
+  response.ok || !response.error
+    ? null
+    : {
+        kind: "http",
+        status: response.status,
+        errorCode: response.error.code,
+        message: response.error.message,
+        transient: response.error.isTransient,
+        retryAfter: response.headers.get("retry-after"),
+      };
+
+/**
+ * Performs a Graph request. HTTP errors resolve with `ok: false` and a parsed
+ * `error`; timeouts and network failures throw `GraphRequestError` carrying
+ * the attempt history.
+ */
+export async function graphRequest<T = unknown>(
+  options: GraphRequestOptions,
+): Promise<GraphResponse<T>> {
+  const url = options.url ?? graphUrl(options.path ?? "");
+  const label = options.label ?? `Graph ${options.method ?? "GET"} request`;
+
+  if (!options.retry) {
+    return { ...(await sendOnce<T>(url, options)), attempts: [] };
+  }
+
+  const outcome = await withGraphRetry(() => sendOnce<T>(url, options), {
+    label,
+    idempotent: options.retry.idempotent,
+    describeFailure: toRetryFailure,
+    isFatal: (error) => !(error instanceof GraphRequestError),
+  });
+
+  if (outcome.thrown) {
+    if (outcome.error instanceof GraphRequestError) {
+      outcome.error.attempts = outcome.attempts;
+    }
+    throw outcome.error;
+  }
+
+  return { ...outcome.result, attempts: outcome.attempts };
+}
@@ -0,0 +1,250 @@
+/* Retry policy for Graph API calls. Failures are classified as transient
+ * (throttling, 5xx, connection refused) or permanent (validation, auth,
+ * policy). Transient ones are retried with exponential backoff and full
+ * jitter, never sooner than the server's `Retry-After`.
+ *
+ * Non-idempotent requests (sending a message, creating a Flow) are only
+ * resent when Meta provably did not act on them: a throttling rejection or a
+ * connection that never opened. A 5xx or a timeout after the body went out
+ * is ambiguous, so those calls are not resent to avoid duplicates. */
+
+export type GraphFailureKind = "http" | "timeout" | "network";
+
+export type GraphCallFailure = {
+  kind: GraphFailureKind;
+  status: number | null;
+  errorCode: number | null;
+  message: string;
+  /** Meta's own `is_transient` hint from the error payload. */
+  transient?: boolean;
+  /** The request may have reached Meta before failing (timeouts, resets). */
+  maybeDelivered?: boolean;
+  retryAfter?: string | null;
+};
+
+export type GraphAttempt = {
+  attempt: number;
+  at: string;
+  durationMs: number;
+  status: number | null;
+  errorCode: number | null;
+  error: string | null;
+  retryable: boolean;
+  /** Wait before the next attempt; `null` on the last one. */
+  delayMs: number | null;
+};
+
+export type GraphRetryOutcome<T> =
+  | { thrown: false; result: T; attempts: GraphAttempt[] }
+  | { thrown: true; error: unknown; attempts: GraphAttempt[] };
+
+type RetryPolicy = {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+};
+
+const parsePositiveInt = (raw: string | undefined, fallback: number) => {
+  const parsed = Number.parseInt(raw ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+const retryPolicy: RetryPolicy = {
+  maxAttempts: parsePositiveInt(process.env.GRAPH_RETRY_MAX_ATTEMPTS, 4),
+  baseDelayMs: parsePositiveInt(process.env.GRAPH_RETRY_BASE_DELAY_MS, 500),
+  maxDelayMs: parsePositiveInt(process.env.GRAPH_RETRY_MAX_DELAY_MS, 30_000),
+};
+
+// Graph codes documented as temporary: API/service unavailability and the
+// app, account, number and pair throttling limits
+const RETRYABLE_GRAPH_ERROR_CODES = new Set([
+  1, 2, 4, 17, 32, 613, 80007, 130429, 131016, 131056, 133004,
+]);
+
+// Throttling rejections: Meta refused the request without acting on it, so
+// even non-idempotent calls can be resent
+const THROTTLING_GRAPH_ERROR_CODES = new Set([4, 80007, 130429, 131056]);
+
+// Connection errors raised before any byte of the request was sent
+const SAFE_NETWORK_ERROR_CODES = new Set([
+  "ECONNREFUSED",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "ENETUNREACH",
+  "EHOSTUNREACH",
+  "UND_ERR_CONNECT_TIMEOUT",
+]);
+
+export const isRetryableGraphFailure = (
+  failure: GraphCallFailure,
+  idempotent: boolean,
+): boolean => {
+  if (failure.kind !== "http") {
+    return idempotent || !failure.maybeDelivered;
+  }
+  if (!idempotent) {
+    return (
+      failure.status === 429 ||
+      (failure.errorCode !== null &&
+        THROTTLING_GRAPH_ERROR_CODES.has(failure.errorCode))
+    );
+  }
+  if (
+    failure.errorCode !== null &&
+    RETRYABLE_GRAPH_ERROR_CODES.has(failure.errorCode)
+  ) {
+    return true;
+  }
+  if (failure.transient) {
+    return true;
+  }
+  return (
+    failure.status === 429 || (failure.status !== null && failure.status >= 500)
+  );
+};
+
+/** Parses `Retry-After` (delta seconds or HTTP date) into milliseconds. */
+export const parseRetryAfterMs = (
+  header: string | null | undefined,
+  now = Date.now(),
+): number | null => {
+  const value = header?.trim();
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+};
+
+/**
+ * Delay before attempt `attempt + 1`, or `null` when the server asks us to
+ * wait longer than the policy allows.
+ */
+export const computeRetryDelayMs = (
+  attempt: number,
+  retryAfter?: string | null,
+): number | null => {
+  const ceiling = Math.min(
+    retryPolicy.maxDelayMs,
+    retryPolicy.baseDelayMs * 2 ** Math.max(0, attempt - 1),
+  );
+  const jittered = Math.round(Math.random() * ceiling);
+  const retryAfterMs = parseRetryAfterMs(retryAfter);
+  if (retryAfterMs === null) {
+    return jittered;
+  }
+  if (retryAfterMs > retryPolicy.maxDelayMs) {
+    return null;
+  }
+  return Math.max(jittered, Math.ceil(retryAfterMs));
+};
+
+/** Errors carrying a nested socket error code (`fetch` wraps it in `cause`). */
+const findErrorCode = (error: unknown): string | null => {
+  let current: unknown = error;
+  for (let depth = 0; current && depth < 3; depth++) {
+    const code = (current as { code?: unknown }).code;
+    if (typeof code === "string") return code;
+    current = (current as { cause?: unknown }).cause;
+  }
+  return null;
+};
+
+/** Describes a thrown request error as a timeout or network failure. */
+export const describeThrownGraphError = (error: unknown): GraphCallFailure => {
+  const kind = (error as { kind?: unknown } | null)?.kind;
+  if (
+    kind === "timeout" ||
+    (error instanceof Error && error.name === "AbortError")
+  ) {
+    return {
+      kind: "timeout",
+      status: null,
+      errorCode: null,
+      message: "Request to Meta timed out",
+      maybeDelivered: true,
+    };
+  }
+
+  const code = findErrorCode(error);
+  return {
+    kind: "network",
+    status: null,
+    errorCode: null,
+    maybeDelivered: !code || !SAFE_NETWORK_ERROR_CODES.has(code),
+    message:
+      error instanceof Error
+        ? `${error.message}${code ? ` (${code})` : ""}`
+        : "Unknown network error",
+  };
+};
+
+const sleep = (ms: number) =>
+  new Promise<void>((resolve) => {
+    setTimeout(resolve, ms);
+  });
+
+/**
+ * Runs `call` until it succeeds, fails permanently or the attempt budget is
+ * spent. `describeFailure` maps a resolved result to a failure (or `null` on
+ * success); thrown errors are treated as timeouts or network failures.
+ */
+export async function withGraphRetry<T>(
+  call: (attempt: number) => Promise<T>,
+  options: {
+    label: string;
+    idempotent: boolean;
+    describeFailure: (result: T) => GraphCallFailure | null;
+    /** Errors that must surface immediately (e.g. local backpressure). */
+    isFatal?: (error: unknown) => boolean;
+  },
+): Promise<GraphRetryOutcome<T>> {
+  const attempts: GraphAttempt[] = [];
+
+  for (let attempt = 1; ; attempt++) {
+    const startedAt = Date.now();
+    let failure: GraphCallFailure | null;
+    let outcome: GraphRetryOutcome<T>;
+
+    try {
+      const result = await call(attempt);
+      failure = options.describeFailure(result);
+      outcome = { thrown: false, result, attempts };
+    } catch (error) {
+      if (options.isFatal?.(error)) {
+        return { thrown: true, error, attempts };
+      }
+      failure = describeThrownGraphError(error);
+      outcome = { thrown: true, error, attempts };
+    }
+
+    const retryable =
+      failure !== null && isRetryableGraphFailure(failure, options.idempotent);
+    const delayMs =
+      retryable && attempt < retryPolicy.maxAttempts
+        ? computeRetryDelayMs(attempt, failure?.retryAfter)
+        : null;
+
+    attempts.push({
+      attempt,
+      at: new Date(startedAt).toISOString(),
+      durationMs: Date.now() - startedAt,
+      status: failure?.status ?? null,
+      errorCode: failure?.errorCode ?? null,
+      error: failure?.message ?? null,
+      retryable,
+      delayMs,
+    });
+
+    if (!failure || delayMs === null) {
+      return outcome;
+    }
+
+    console.warn(
+      `${options.label} failed (attempt ${attempt}/${retryPolicy.maxAttempts}): ${failure.message}. Retrying in ${delayMs}ms.`,
+    );
+    await sleep(delayMs);
+  }
+}
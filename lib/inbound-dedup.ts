@@ -0,0 +1,128 @@
+import prisma from "./prisma";
+
+const DEFAULT_TTL_HOURS = 72;
+const DEFAULT_CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+const parsePositiveNumber = (raw: string | undefined, fallback: number) => {
+  const parsed = Number(raw);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+export const INBOUND_DEDUP_TTL_MS =
+  parsePositiveNumber(process.env.INBOUND_DEDUP_TTL_HOURS, DEFAULT_TTL_HOURS) *
+  60 *
+  60 *
+  1000;
+
+const isPrismaError = (value: unknown, code: string): boolean => {
+  if (!value || typeof value !== "object") {
+    return false;
+  }
+
+  const candidate = value as { code?: unknown };
+  return typeof candidate.code === "string" && candidate.code === code;
+};
+
+let duplicatesDropped = 0;
+let cleanupTimer: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * Records an inbound WhatsApp message id in the processed ledger. Returns
+ * `false` when the id was already claimed (a Meta redelivery), in which case
+ * the caller must skip the message.
+ */
+export async function claimInboundMessage(
+  userId: string,
+  messageId: string,
+): Promise<boolean> {
+  const normalizedId = messageId.trim();
+  if (!normalizedId) {
+    return true;
+  }
+
+  try {
+    await prisma.processedInboundMessage.create({
+      data: {
+        messageId: normalizedId,
+        userId,
+        expiresAt: new Date(Date.now() + INBOUND_DEDUP_TTL_MS),
+      },
+    });
+    return true;
+  } catch (error) {
+    if (isPrismaError(error, "P2002")) {
+      duplicatesDropped += 1;
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Drops the claim for a message whose processing failed, so Meta's retry (or
+ * the webhook job's) is handled instead of being skipped as a duplicate.
+ */
+export async function releaseInboundMessage(messageId: string) {
+  const normalizedId = messageId.trim();
+  if (!normalizedId) {
+    return;
+  }
+
+  try {
+    await prisma.processedInboundMessage.deleteMany({
+      where: { messageId: normalizedId },
+    });
+  } catch (error) {
+    console.error(
+      `Failed to release inbound message claim ${normalizedId}:`,
+      error,
+    );
+  }
+}
+
+export async function purgeExpiredInboundMessages(
+  now: Date = new Date(),
+): Promise<number> {
+  const result = await prisma.processedInboundMessage.deleteMany({
+    where: { expiresAt: { lt: now } },
+  });
+  return typeof result?.count === "number" ? result.count : 0;
+}
+
+export const getInboundDedupMetrics = () => ({
+  duplicatesDropped,
+  ttlMs: INBOUND_DEDUP_TTL_MS,
+});
+
+export function startInboundDedupCleanup(
+  intervalMs = parsePositiveNumber(
+    process.env.INBOUND_DEDUP_CLEANUP_INTERVAL_MS,
+    DEFAULT_CLEANUP_INTERVAL_MS,
+  ),
+) {
+  if (cleanupTimer) {
+    return;
+  }
+
+  const run = async () => {
+    try {
+      const removed = await purgeExpiredInboundMessages();
+      if (removed > 0) {
+        console.log(`Purged ${removed} expired inbound message ids.`);
+      }
+    } catch (error) {
+      console.error("Failed to purge expired inbound message ids:", error);
+    }
+  };
+
+  cleanupTimer = setInterval(run, intervalMs);
+  cleanupTimer.unref?.();
+  void run();
+}
+
+export function stopInboundDedupCleanup() {
+  if (cleanupTimer) {
+    clearInterval(cleanupTimer);
+    cleanupTimer = null;
+  }
+}
@@ -0,0 +1,264 @@
+/* Typed views of the structured inbound WhatsApp message types. The parsers
+ * accept the raw webhook shapes (snake_case, as Meta sends them) and drop
+ * anything malformed, so they double as sanitizers for manual triggers. */
+
+export type InboundLocation = {
+  latitude: number;
+  longitude: number;
+  name: string | null;
+  address: string | null;
+  url: string | null;
+};
+
+export type InboundSharedContact = {
+  formattedName: string | null;
+  firstName: string | null;
+  lastName: string | null;
+  phones: Array<{ phone: string; waId: string | null; type: string | null }>;
+  emails: Array<{ email: string; type: string | null }>;
+  organization: { company: string | null; title: string | null } | null;
+};
+
+export type InboundReaction = {
+  messageId: string | null;
+  emoji: string | null;
+  /** Meta sends a reaction without emoji when the user removes it. */
+  removed: boolean;
+};
+
+export type InboundButton = {
+  text: string | null;
+  payload: string | null;
+};
+
+export type InboundOrderItem = {
+  productRetailerId: string;
+  quantity: number;
+  itemPrice: number | null;
+  currency: string | null;
+};
+
+export type InboundOrder = {
+  catalogId: string | null;
+  text: string | null;
+  items: InboundOrderItem[];
+  total: number | null;
+  currency: string | null;
+};
+
+export type InboundFlowResponse = {
+  name: string | null;
+  body: string | null;
+  flowToken: string | null;
+  /** Submitted form fields from `response_json`, without `flow_token`. */
+  data: Record<string, unknown>;
+};
+
+const asRecord = (value: unknown): Record<string, unknown> | null =>
+  value && typeof value === "object" && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : null;
+
+const asString = (value: unknown): string | null => {
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim();
+  return trimmed.length ? trimmed : null;
+};
+
+const asNumber = (value: unknown): number | null => {
+  if (typeof value === "number" && Number.isFinite(value)) return value;
+  if (typeof value === "string" && value.trim()) {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+};
+
+export const parseInboundLocation = (raw: unknown): InboundLocation | null => {
+  const source = asRecord(raw);
+  if (!source) return null;
+
+  const latitude = asNumber(source.latitude);
+  const longitude = asNumber(source.longitude);
+  if (latitude === null || longitude === null) return null;
+
+  return {
+    latitude,
+    longitude,
+    name: asString(source.name),
+    address: asString(source.address),
+    url: asString(source.url),
+  };
+};
+
+const parseSharedContact = (raw: unknown): InboundSharedContact | null => {
+  const source = asRecord(raw);
+  if (!source) return null;
+
+  const name = asRecord(source.name);
+  const org = asRecord(source.org);
+
+  const phones = (Array.isArray(source.phones) ? source.phones : [])
+    .map((entry) => {
+      const phoneEntry = asRecord(entry);
+      const phone = asString(phoneEntry?.phone) ?? asString(phoneEntry?.wa_id);
+      if (!phone) return null;
+      return {
+        phone,
+        waId: asString(phoneEntry?.wa_id),
+        type: asString(phoneEntry?.type),
+      };
+    })
+    .filter((entry): entry is NonNullable<typeof entry> => entry !== null);
+
+  const emails = (Array.isArray(source.emails) ? source.emails : [])
+    .map((entry) => {
+      const emailEntry = asRecord(entry);
+      const email = asString(emailEntry?.email);
+      if (!email) return null;
+      return { email, type: asString(emailEntry?.type) };
+    })
+    .filter((entry): entry is NonNullable<typeof entry> => entry !== null);
+
+  const organization = org
+    ? { company: asString(org.company), title: asString(org.title) }
+    : null;
+
+  const formattedName = asString(name?.formatted_name);
+  if (!formattedName && !phones.length && !emails.length) return null;
+
+  return {
+    formattedName,
+    firstName: asString(name?.first_name),
+    lastName: asString(name?.last_name),
+    phones,
+    emails,
+    organization,
+  };
+};
+
+export const parseInboundContacts = (
+  raw: unknown,
+): InboundSharedContact[] | null => {
+  if (!Array.isArray(raw)) return null;
+  const contacts = raw
+    .map((entry) => parseSharedContact(entry))
+    .filter((entry): entry is InboundSharedContact => entry !== null);
+  return contacts.length ? contacts : null;
+};
+
+export const parseInboundReaction = (raw: unknown): InboundReaction | null => {
+  const source = asRecord(raw);
+  if (!source) return null;
+
+  const messageId = asString(source.message_id);
+  const emoji = asString(source.emoji);
+  if (!messageId && !emoji) return null;
+
+  return { messageId, emoji, removed: !emoji };
+};
+
+export const parseInboundButton = (raw: unknown): InboundButton | null => {
+  const source = asRecord(raw);
+  if (!source) return null;
+
+  const text = asString(source.text);
+  const payload = asString(source.payload);
+  if (!text && !payload) return null;
+
+  return { text, payload };
+};
+
+export const parseInboundOrder = (raw: unknown): InboundOrder | null => {
+  const source = asRecord(raw);
+  if (!source) return null;
+
+  const items = (
+    Array.isArray(source.product_items) ? source.product_items : []
+  )
+    .map((entry): InboundOrderItem | null => {
+      const item = asRecord(entry);
+      const productRetailerId = asString(item?.product_retailer_id);
+      if (!productRetailerId) return null;
+      return {
+        productRetailerId,
+        quantity: asNumber(item?.quantity) ?? 1,
+        itemPrice: asNumber(item?.item_price),
+        currency: asString(item?.currency),
+      };
+    })
+    .filter((entry): entry is InboundOrderItem => entry !== null);
+
+  if (!items.length) return null;
+
+  const currencies = new Set(
+    items.map((item) => item.currency).filter((value) => value !== null),
+  );
+  const currency = currencies.size === 1 ? Array.from(currencies)[0] : null;
+  const priced = items.every((item) => item.itemPrice !== null);
+  const total =
+    currency && priced
+      ? items.reduce(
+          (sum, item) => sum + (item.itemPrice ?? 0) * item.quantity,
+          0,
+        )
+      : null;
+
+  return {
+    catalogId: asString(source.catalog_id),
+    text: asString(source.text),
+    items,
+    total,
+    currency,
+  };
+};
+
+/**
+ * Short human-readable summary used as the message text for flow matching
+ * and history, mirroring the `[image]`-style placeholders for media.
+ */
+export const describeInboundLocation = (location: InboundLocation) =>
+  location.name ?? location.address ?? "[location]";
+
+export const describeInboundContacts = (contacts: InboundSharedContact[]) => {
+  const names = contacts
+    .map((contact) => contact.formattedName)
+    .filter((value): value is string => Boolean(value));
+  return names.length ? names.join(", ") : "[contacts]";
+};
+
+export const describeInboundOrder = (order: InboundOrder) =>
+  order.text ?? "[order]";
+
+/**
+ * Parses an `interactive.nfm_reply` (WhatsApp Flow completion). Meta sends
+ * `response_json` as a JSON string; an already-parsed object is accepted too.
+ */
+export const parseInboundFlowResponse = (
+  raw: unknown,
+): InboundFlowResponse | null => {
+  const source = asRecord(raw);
+  if (!source) return null;
+
+  let response: Record<string, unknown> | null = null;
+  if (typeof source.response_json === "string") {
+    try {
+      response = asRecord(JSON.parse(source.response_json));
+    } catch {
+      response = null;
+    }
+  } else {
+    response = asRecord(source.response_json);
+  }
+
+  if (!response) return null;
+
+  const { flow_token: flowToken, ...data } = response;
+
+  return {
+    name: asString(source.name),
+    body: asString(source.body),
+    flowToken: asString(flowToken),
+    data,
+  };
+};
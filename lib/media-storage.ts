@@ -0,0 +1,86 @@
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+/**
+ * Where media bytes live. Keys are opaque, adapter-relative paths produced by
+ * the media subsystem (`<userId>/<sha256>`); adapters must not reinterpret
+ * them.
+ */
+export interface MediaStorageAdapter {
+  /** Stored on each asset so files stay readable after switching drivers. */
+  readonly driver: string;
+  put(key: string, data: Buffer, mimeType: string): Promise<void>;
+  get(key: string): Promise<Buffer | null>;
+  delete(key: string): Promise<void>;
+}
+
+const DEFAULT_LOCAL_MEDIA_DIR = path.resolve(process.cwd(), "storage", "media");
+
+const resolveWithin = (rootDir: string, key: string) => {
+  const root = path.resolve(rootDir);
+  const target = path.resolve(root, key);
+  if (target !== root && !target.startsWith(root + path.sep)) {
+    throw new Error(`Media key escapes the storage directory: ${key}`);
+  }
+  return target;
+};
+
+export const createLocalMediaStorage = (
+  rootDir: string = process.env.MEDIA_STORAGE_DIR?.trim() ||
+    DEFAULT_LOCAL_MEDIA_DIR,
+): MediaStorageAdapter => ({
+  driver: "local",
+
+  async put(key, data) {
+    const target = resolveWithin(rootDir, key);
+    await mkdir(path.dirname(target), { recursive: true });
+    await writeFile(target, data);
+  },
+
+  async get(key) {
+    try {
+      return await readFile(resolveWithin(rootDir, key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException)?.code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+  },
+
+  async delete(key) {
+    await rm(resolveWithin(rootDir, key), { force: true });
+  },
+});
+
+const adapters = new Map<string, MediaStorageAdapter>();
+let activeDriver = "local";
+
+adapters.set("local", createLocalMediaStorage());
+
+/**
+ * Registers an adapter (S3, GCS, ...). Pass `activate` to make it the one new
+ * files are written to; previously stored files keep resolving through the
+ * driver recorded on their asset.
+ */
+export function registerMediaStorageAdapter(
+  adapter: MediaStorageAdapter,
+  options: { activate?: boolean } = {},
+) {
+  adapters.set(adapter.driver, adapter);
+  if (options.activate) {
+    activeDriver = adapter.driver;
+  }
+}
+
+export const getMediaStorage = (): MediaStorageAdapter => {
+  const adapter = adapters.get(activeDriver);
+  if (!adapter) {
+    throw new Error(`Media storage driver "${activeDriver}" is not registered`);
+  }
+  return adapter;
+};
+
+export const getMediaStorageForDriver = (
+  driver: string,
+): MediaStorageAdapter | null => adapters.get(driver) ?? null;
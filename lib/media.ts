@@ -0,0 +1,646 @@
+import { createHash } from "node:crypto";
+import type { MediaAsset } from "@prisma/client";
+
+import prisma from "./prisma";
+import {
+  getGraphCredentials,
+  graphRequest,
+  GraphRequestError,
+  type GraphResponse,
+} from "./graph-client";
+import { getMediaStorage, getMediaStorageForDriver } from "./media-storage";
+
+export const inboundMediaTypes = [
+  "image",
+  "video",
+  "audio",
+  "document",
+  "sticker",
+] as const;
+
+export type InboundMediaType = (typeof inboundMediaTypes)[number];
+
+export type MediaAssetResource = {
+  id: string;
+  userId: string;
+  source: string;
+  metaMediaId: string | null;
+  messageId: string | null;
+  mediaType: string;
+  mimeType: string;
+  sha256: string;
+  size: number;
+  filename: string | null;
+  /** Stable internal URL serving the stored bytes. */
+  url: string;
+  /** Media id usable in outbound messages, refreshed when it expires. */
+  uploadMediaId: string | null;
+  uploadExpiresAt: string | null;
+  createdAt: string;
+};
+
+export class MediaError extends Error {
+  status?: number;
+  details?: unknown;
+
+  constructor(
+    message: string,
+    options?: { status?: number; details?: unknown },
+  ) {
+    super(message);
+    this.name = "MediaError";
+    if (options?.status) {
+      this.status = options.status;
+    }
+    if (options?.details !== undefined) {
+      this.details = options.details;
+    }
+  }
+}
+
+type GraphMediaInfo = {
+  url: string;
+  mimeType: string | null;
+  sha256: string | null;
+  size: number | null;
+};
+
+const parsePositiveInt = (raw: string | undefined, fallback: number) => {
+  const parsed = Number.parseInt(raw ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+// WhatsApp caps documents at 100 MB; everything else is smaller
+export const MEDIA_MAX_BYTES = parsePositiveInt(
+  process.env.MEDIA_MAX_BYTES,
+  100 * 1024 * 1024,
+);
+// Uploads are buffered in memory while the multipart body is parsed, so the
+// API accepts less than WhatsApp does; raise it for large documents
+export const MEDIA_UPLOAD_MAX_BYTES = Math.min(
+  parsePositiveInt(process.env.MEDIA_UPLOAD_MAX_BYTES, 16 * 1024 * 1024),
+  MEDIA_MAX_BYTES,
+);
+const MEDIA_DOWNLOAD_TIMEOUT_MS = parsePositiveInt(
+  process.env.MEDIA_DOWNLOAD_TIMEOUT_MS,
+  60_000,
+);
+const MEDIA_PUBLIC_BASE_URL =
+  process.env.MEDIA_PUBLIC_BASE_URL?.trim().replace(/\/+$/, "") ?? "";
+
+const MB = 1024 * 1024;
+
+// Outbound limits from WhatsApp's supported media table
+const UPLOAD_MEDIA_RULES: Record<
+  string,
+  { maxBytes: number; mimeTypes: readonly string[] }
+> = {
+  image: { maxBytes: 5 * MB, mimeTypes: ["image/jpeg", "image/png"] },
+  video: { maxBytes: 16 * MB, mimeTypes: ["video/mp4", "video/3gpp"] },
+  audio: {
+    maxBytes: 16 * MB,
+    mimeTypes: [
+      "audio/aac",
+      "audio/amr",
+      "audio/mpeg",
+      "audio/mp4",
+      "audio/ogg",
+    ],
+  },
+  document: {
+    maxBytes: 100 * MB,
+    mimeTypes: [
+      "text/plain",
+      "application/pdf",
+      "application/msword",
+      "application/vnd.ms-excel",
+      "application/vnd.ms-powerpoint",
+      "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+      "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+    ],
+  },
+  sticker: { maxBytes: 500 * 1024, mimeTypes: ["image/webp"] },
+};
+
+// Meta keeps uploaded media for 30 days; refresh an hour early so an id
+// never expires between the lookup and the send
+const UPLOAD_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const UPLOAD_REFRESH_MARGIN_MS = 60 * 60 * 1000;
+
+const toIso = (value: Date | string | undefined) => {
+  if (!value) return new Date().toISOString();
+  const date = value instanceof Date ? value : new Date(value);
+  return Number.isNaN(date.getTime())
+    ? new Date().toISOString()
+    : date.toISOString();
+};
+
+const asRecord = (value: unknown): Record<string, unknown> | null =>
+  value && typeof value === "object" && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : null;
+
+const asString = (value: unknown): string | null =>
+  typeof value === "string" && value.trim() ? value.trim() : null;
+
+const isPrismaError = (value: unknown, code: string) =>
+  typeof value === "object" &&
+  value !== null &&
+  "code" in value &&
+  (value as { code?: unknown }).code === code;
+
+export const isInboundMediaType = (
+  value: string | null | undefined,
+): value is InboundMediaType =>
+  !!value && (inboundMediaTypes as readonly string[]).includes(value);
+
+export const mediaAssetUrl = (asset: Pick<MediaAsset, "id" | "userId">) =>
+  `${MEDIA_PUBLIC_BASE_URL}/users/${encodeURIComponent(asset.userId)}/media/${encodeURIComponent(asset.id)}/content`;
+
+export const toMediaAssetResource = (
+  asset: MediaAsset,
+): MediaAssetResource => ({
+  id: asset.id,
+  userId: asset.userId,
+  source: asset.source,
+  metaMediaId: asset.metaMediaId ?? null,
+  messageId: asset.messageId ?? null,
+  mediaType: asset.mediaType,
+  mimeType: asset.mimeType,
+  sha256: asset.sha256,
+  size: asset.size,
+  filename: asset.filename ?? null,
+  url: mediaAssetUrl(asset),
+  uploadMediaId: asset.uploadMediaId ?? null,
+  uploadExpiresAt: asset.uploadExpiresAt ? toIso(asset.uploadExpiresAt) : null,
+  createdAt: toIso(asset.createdAt),
+});
+
+const toMediaError = (error: unknown, mediaId: string) =>
+  error instanceof GraphRequestError
+    ? new MediaError(
+        error.kind === "timeout"
+          ? "Request to Meta timed out while fetching media"
+          : `Network error while fetching media ${mediaId}: ${error.message}`,
+        { status: error.kind === "timeout" ? 504 : 502 },
+      )
+    : error;
+
+/**
+ * Resolves a media id to its short-lived download URL. The URL itself also
+ * requires the bearer token and expires after a few minutes.
+ */
+async function fetchGraphMediaInfo(
+  accessToken: string,
+  mediaId: string,
+): Promise<GraphMediaInfo> {
+  let response: GraphResponse<Record<string, unknown>>;
+  try {
+    response = await graphRequest<Record<string, unknown>>({
+      path: encodeURIComponent(mediaId),
+      accessToken,
+      retry: { idempotent: true },
+      label: `Resolving media ${mediaId}`,
+    });
+  } catch (error) {
+    throw toMediaError(error, mediaId);
+  }
+
+  if (!response.ok) {
+    throw new MediaError(
+      response.error?.message ?? `Meta media lookup failed for ${mediaId}`,
+      { status: response.status, details: response.json ?? response.raw },
+    );
+  }
+
+  const json = asRecord(response.json);
+  const url = asString(json?.url);
+  if (!url) {
+    throw new MediaError(`Meta returned no download URL for media ${mediaId}`, {
+      status: 502,
+      details: json ?? response.raw,
+    });
+  }
+
+  const size = Number(json?.file_size);
+  return {
+    url,
+    mimeType: asString(json?.mime_type),
+    sha256: asString(json?.sha256),
+    size: Number.isFinite(size) ? size : null,
+  };
+}
+
+async function downloadMediaBytes(
+  accessToken: string,
+  info: GraphMediaInfo,
+  mediaId: string,
+): Promise<{ data: Buffer; mimeType: string | null }> {
+  if (info.size !== null && info.size > MEDIA_MAX_BYTES) {
+    throw new MediaError(
+      `Media ${mediaId} is ${info.size} bytes, above the ${MEDIA_MAX_BYTES} byte limit`,
+      { status: 413 },
+    );
+  }
+
+  let response: GraphResponse;
+  try {
+    response = await graphRequest({
+      url: info.url,
+      accessToken,
+      responseType: "buffer",
+      timeoutMs: MEDIA_DOWNLOAD_TIMEOUT_MS,
+      retry: { idempotent: true },
+      label: `Downloading media ${mediaId}`,
+    });
+  } catch (error) {
+    throw toMediaError(error, mediaId);
+  }
+
+  if (!response.ok || !response.buffer) {
+    throw new MediaError(`Failed to download media ${mediaId}`, {
+      status: response.status,
+    });
+  }
+
+  const data = response.buffer;
+  if (data.length > MEDIA_MAX_BYTES) {
+    throw new MediaError(
+      `Media ${mediaId} is ${data.length} bytes, above the ${MEDIA_MAX_BYTES} byte limit`,
+      { status: 413 },
+    );
+  }
+
+  return {
+    data,
+    mimeType:
+      response.headers.get("content-type")?.split(";")[0]?.trim() || null,
+  };
+}
+
+type InboundMediaInput = {
+  mediaId: string;
+  mediaType: string;
+  messageId?: string | null;
+  mimeType?: string | null;
+  sha256?: string | null;
+  filename?: string | null;
+};
+
+/**
+ * Downloads an inbound media id through the Graph API and stores it with the
+ * active storage adapter. Idempotent per tenant and media id, so webhook
+ * retries and replays reuse the stored asset.
+ */
+export async function storeInboundMedia(
+  userId: string,
+  input: InboundMediaInput,
+): Promise<MediaAsset> {
+  const where = {
+    userId_metaMediaId: { userId, metaMediaId: input.mediaId },
+  };
+  const existing = (await prisma.mediaAsset.findUnique({
+    where,
+  })) as MediaAsset | null;
+  if (existing) {
+    return existing;
+  }
+
+  const { accessToken } = await getGraphCredentials(userId);
+  if (!accessToken) {
+    throw new MediaError(
+      "Missing Meta access token. Please reconnect WhatsApp in Settings.",
+      { status: 400 },
+    );
+  }
+
+  const info = await fetchGraphMediaInfo(accessToken, input.mediaId);
+  const { data, mimeType: downloadedMimeType } = await downloadMediaBytes(
+    accessToken,
+    info,
+    input.mediaId,
+  );
+
+  const sha256 = createHash("sha256").update(data).digest("hex");
+  const expectedSha256 = info.sha256 ?? input.sha256 ?? null;
+  if (expectedSha256 && expectedSha256.toLowerCase() !== sha256) {
+    throw new MediaError(
+      `Checksum mismatch for media ${input.mediaId}: expected ${expectedSha256}, got ${sha256}`,
+      { status: 502 },
+    );
+  }
+
+  const mimeType =
+    info.mimeType ??
+    input.mimeType ??
+    downloadedMimeType ??
+    "application/octet-stream";
+
+  // Content-addressed per tenant: identical files share one stored object
+  const storage = getMediaStorage();
+  const storageKey = `${userId}/${sha256}`;
+  await storage.put(storageKey, data, mimeType);
+
+  try {
+    return await prisma.mediaAsset.create({
+      data: {
+        userId,
+        source: "Inbound",
+        metaMediaId: input.mediaId,
+        messageId: input.messageId ?? null,
+        mediaType: input.mediaType,
+        mimeType,
+        sha256,
+        size: data.length,
+        filename: input.filename ?? null,
+        storageDriver: storage.driver,
+        storageKey,
+      },
+    });
+  } catch (error) {
+    // Another worker stored the same media id concurrently
+    if (isPrismaError(error, "P2002")) {
+      const stored = (await prisma.mediaAsset.findUnique({
+        where,
+      })) as MediaAsset | null;
+      if (stored) return stored;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Stores the media attached to an inbound message, if any. Failures are
+ * logged and yield `null` so the flow still runs with the raw media id.
+ */
+export async function resolveInboundMessageMedia(
+  userId: string,
+  message: { id?: string; type?: string },
+): Promise<MediaAssetResource | null> {
+  const mediaType = message.type ?? null;
+  if (!isInboundMediaType(mediaType)) {
+    return null;
+  }
+
+  const media = asRecord((message as Record<string, unknown>)[mediaType]);
+  const mediaId = asString(media?.id);
+  if (!mediaId) {
+    return null;
+  }
+
+  try {
+    const asset = await storeInboundMedia(userId, {
+      mediaId,
+      mediaType,
+      messageId: message.id ?? null,
+      mimeType: asString(media?.mime_type),
+      sha256: asString(media?.sha256),
+      filename: asString(media?.filename),
+    });
+    return toMediaAssetResource(asset);
+  } catch (error) {
+    console.error(
+      `Failed to store ${mediaType} ${mediaId} from message ${message.id}:`,
+      error,
+    );
+    return null;
+  }
+}
+
+export async function getMediaAsset(
+  userId: string,
+  assetId: string,
+): Promise<MediaAsset | null> {
+  return prisma.mediaAsset.findFirst({ where: { id: assetId, userId } });
+}
+
+export async function readMediaAssetContent(
+  asset: MediaAsset,
+): Promise<Buffer | null> {
+  const storage = getMediaStorageForDriver(asset.storageDriver);
+  if (!storage) {
+    throw new MediaError(
+      `Media storage driver "${asset.storageDriver}" is not registered`,
+      { status: 500 },
+    );
+  }
+  return storage.get(asset.storageKey);
+}
+
+const normalizeMimeType = (value: string) =>
+  value.split(";")[0]?.trim().toLowerCase() || "application/octet-stream";
+
+const inferUploadMediaType = (mimeType: string) => {
+  if (mimeType === "image/webp") return "sticker";
+  const [family] = mimeType.split("/");
+  return family === "image" || family === "video" || family === "audio"
+    ? family
+    : "document";
+};
+
+const isUploadFresh = (asset: MediaAsset, phoneNumberId: string) =>
+  !!asset.uploadMediaId &&
+  asset.uploadPhoneNumberId === phoneNumberId &&
+  !!asset.uploadExpiresAt &&
+  new Date(asset.uploadExpiresAt).getTime() - UPLOAD_REFRESH_MARGIN_MS >
+    Date.now();
+
+async function requireSendingCredentials(userId: string) {
+  const { accessToken, phoneNumberId } = await getGraphCredentials(userId);
+  if (!accessToken || !phoneNumberId) {
+    throw new MediaError(
+      "Missing Meta API credentials. Please reconnect WhatsApp in Settings.",
+      { status: 400 },
+    );
+  }
+  return { accessToken, phoneNumberId };
+}
+
+/** Uploads bytes to the phone number's media endpoint and returns the id. */
+async function uploadToGraph(
+  credentials: { accessToken: string; phoneNumberId: string },
+  file: { data: Buffer; mimeType: string; filename: string | null },
+): Promise<string> {
+  const form = new FormData();
+  form.append("messaging_product", "whatsapp");
+  form.append("type", file.mimeType);
+  form.append(
+    "file",
+    new Blob([new Uint8Array(file.data)], { type: file.mimeType }),
+    file.filename ?? "upload",
+  );
+
+  let response: GraphResponse<Record<string, unknown>>;
+  try {
+    response = await graphRequest<Record<string, unknown>>({
+      method: "POST",
+      path: `${credentials.phoneNumberId}/media`,
+      accessToken: credentials.accessToken,
+      body: form,
+      timeoutMs: MEDIA_DOWNLOAD_TIMEOUT_MS,
+      // A duplicate upload only leaves an unused media id behind
+      retry: { idempotent: true },
+      label: `Uploading ${file.mimeType} media`,
+    });
+  } catch (error) {
+    throw toMediaError(error, file.filename ?? "upload");
+  }
+
+  const id = asString(asRecord(response.json)?.id);
+  if (!response.ok || !id) {
+    throw new MediaError(
+      response.error?.userMessage ??
+        response.error?.message ??
+        "Meta did not return a media id for the upload",
+      {
+        status: response.ok ? 502 : response.status,
+        details: response.json ?? response.raw,
+      },
+    );
+  }
+  return id;
+}
+
+async function refreshUpload(
+  asset: MediaAsset,
+  credentials: { accessToken: string; phoneNumberId: string },
+  data?: Buffer,
+): Promise<MediaAsset> {
+  const content = data ?? (await readMediaAssetContent(asset));
+  if (!content) {
+    throw new MediaError(`Stored content for media ${asset.id} is missing`, {
+      status: 404,
+    });
+  }
+
+  const uploadedAt = Date.now();
+  const uploadMediaId = await uploadToGraph(credentials, {
+    data: content,
+    mimeType: asset.mimeType,
+    filename: asset.filename ?? null,
+  });
+
+  return prisma.mediaAsset.update({
+    where: { id: asset.id },
+    data: {
+      uploadMediaId,
+      uploadPhoneNumberId: credentials.phoneNumberId,
+      uploadExpiresAt: new Date(uploadedAt + UPLOAD_TTL_MS),
+    },
+  });
+}
+
+export type MediaUploadInput = {
+  data: Buffer;
+  mimeType: string;
+  filename?: string | null;
+  /** Overrides the type inferred from the mime type. */
+  mediaType?: string | null;
+};
+
+/**
+ * Adds a file to the tenant's media library and uploads it to Meta. The
+ * same bytes uploaded again reuse the existing entry, refreshing its Meta
+ * media id if that expired.
+ */
+export async function uploadMediaAsset(
+  userId: string,
+  input: MediaUploadInput,
+): Promise<{ asset: MediaAsset; created: boolean }> {
+  const mimeType = normalizeMimeType(input.mimeType);
+  const mediaType = input.mediaType?.trim() || inferUploadMediaType(mimeType);
+  const rules = UPLOAD_MEDIA_RULES[mediaType];
+
+  if (!rules) {
+    throw new MediaError(
+      `Unsupported media type "${mediaType}"; expected one of ${Object.keys(UPLOAD_MEDIA_RULES).join(", ")}`,
+      { status: 400 },
+    );
+  }
+  if (!rules.mimeTypes.includes(mimeType)) {
+    throw new MediaError(
+      `WhatsApp does not accept ${mimeType} as ${mediaType}; supported: ${rules.mimeTypes.join(", ")}`,
+      { status: 415 },
+    );
+  }
+  if (!input.data.length) {
+    throw new MediaError("Uploaded file is empty", { status: 400 });
+  }
+  if (input.data.length > rules.maxBytes) {
+    throw new MediaError(
+      `${mediaType} files are limited to ${rules.maxBytes} bytes (got ${input.data.length})`,
+      { status: 413 },
+    );
+  }
+
+  const credentials = await requireSendingCredentials(userId);
+  const sha256 = createHash("sha256").update(input.data).digest("hex");
+
+  const existing = (await prisma.mediaAsset.findFirst({
+    where: { userId, sha256, source: "Upload", mediaType },
+    orderBy: { createdAt: "desc" },
+  })) as MediaAsset | null;
+  if (existing) {
+    const asset = isUploadFresh(existing, credentials.phoneNumberId)
+      ? existing
+      : await refreshUpload(existing, credentials, input.data);
+    return { asset, created: false };
+  }
+
+  // Upload first so a rejected file leaves nothing behind
+  const uploadedAt = Date.now();
+  const filename = input.filename?.trim() || null;
+  const uploadMediaId = await uploadToGraph(credentials, {
+    data: input.data,
+    mimeType,
+    filename,
+  });
+
+  const storage = getMediaStorage();
+  const storageKey = `${userId}/${sha256}`;
+  await storage.put(storageKey, input.data, mimeType);
+
+  const asset = await prisma.mediaAsset.create({
+    data: {
+      userId,
+      source: "Upload",
+      mediaType,
+      mimeType,
+      sha256,
+      size: input.data.length,
+      filename,
+      storageDriver: storage.driver,
+      storageKey,
+      uploadMediaId,
+      uploadPhoneNumberId: credentials.phoneNumberId,
+      uploadExpiresAt: new Date(uploadedAt + UPLOAD_TTL_MS),
+    },
+  });
+  return { asset, created: true };
+}
+
+/**
+ * Returns a Meta media id for sending a library entry, re-uploading the
+ * stored bytes when the previous id expired or belongs to another number.
+ */
+export async function resolveSendableMedia(
+  userId: string,
+  assetId: string,
+): Promise<{ mediaId: string; mediaType: string; filename: string | null }> {
+  const asset = await getMediaAsset(userId, assetId);
+  if (!asset) {
+    throw new MediaError(`Media ${assetId} not found`, { status: 404 });
+  }
+
+  const credentials = await requireSendingCredentials(userId);
+  const current = isUploadFresh(asset, credentials.phoneNumberId)
+    ? asset
+    : await refreshUpload(asset, credentials);
+
+  return {
+    mediaId: current.uploadMediaId!,
+    mediaType: current.mediaType,
+    filename: current.filename ?? null,
+  };
+}
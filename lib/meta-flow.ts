@@ -1,7 +1,11 @@
 import type { Prisma } from "@prisma/client";
 
-import prisma from "./prisma";
-import { GRAPH_VERSION, META_API_TIMEOUT_MS } from "./meta";
+import {
+  getGraphCredentials,
+  graphRequest,
+  GraphRequestError,
+  type GraphResponse,
+} from "./graph-client";
 
 export type MetaFlowIdentifiers = {
   id: string;
@@ -42,16 +46,8 @@ type FlowPayload = {
 type RequestResult = { json: unknown };
 
 const ensureCredentials = async (userId: string): Promise<MetaCredentials> => {
-  const user = await prisma.user.findUnique({
-    where: { id: userId },
-    select: {
-      metaAccessToken: true,
-      metaBusinessAccountId: true,
-    },
-  });
-
-  const accessToken = user?.metaAccessToken?.trim() ?? "";
-  const wabaId = user?.metaBusinessAccountId?.trim() ?? "";
+  const { accessToken, businessAccountId: wabaId } =
+    await getGraphCredentials(userId);
 
   if (!accessToken || !wabaId) {
     throw new MetaFlowError(
@@ -88,65 +84,49 @@ const performRequest = async (
   method: "POST" | "PUT" | "DELETE",
   body: Record<string, unknown>,
 ): Promise<RequestResult> => {
-  const url = `https://graph.facebook.com/${GRAPH_VERSION}/${credentials.wabaId}/flows`;
-  const headers = {
-    Authorization: `Bearer ${credentials.accessToken}`,
-    "Content-Type": "application/json",
-  };
-
-  const controller = new AbortController();
-  const timeout = setTimeout(() => controller.abort(), META_API_TIMEOUT_MS);
-
+  let response: GraphResponse;
   try {
-    const response = await fetch(url, {
+    response = await graphRequest({
       method,
-      headers,
-      body: JSON.stringify(body),
-      signal: controller.signal,
+      path: `${credentials.wabaId}/flows`,
+      accessToken: credentials.accessToken,
+      body,
+      // Creating a Flow twice leaves a duplicate draft behind
+      retry: { idempotent: method !== "POST" },
+      label: `Meta Flow API ${method}`,
     });
-
-    const raw = await response.text();
-    let json: unknown;
-    if (raw) {
-      try {
-        json = JSON.parse(raw);
-      } catch {
-        json = raw;
-      }
-    }
-
-    if (!response.ok) {
-      const graphMessage =
-        typeof json === "object" && json !== null && "error" in json
-          ? ((json as { error?: { message?: string; error_user_msg?: string } })
-              .error?.error_user_msg ??
-            (json as { error?: { message?: string } }).error?.message)
-          : undefined;
-      const message =
-        (typeof graphMessage === "string" && graphMessage.trim()) ||
-        response.statusText ||
-        "Meta Flow API request failed";
-
-      throw new MetaFlowError(message, {
-        status: response.status,
-        details: json,
-      });
-    }
-
-    return { json };
   } catch (error) {
-    if (error instanceof MetaFlowError) {
-      throw error;
-    }
-    if (error instanceof Error && error.name === "AbortError") {
-      throw new MetaFlowError("Meta Flow API request timed out", {
-        status: 504,
-      });
+    if (error instanceof GraphRequestError) {
+      throw new MetaFlowError(
+        error.kind === "timeout"
+          ? "Meta Flow API request timed out"
+          : "Meta Flow API request failed",
+        {
+          status: error.kind === "timeout" ? 504 : undefined,
+          details: { error: error.message, attempts: error.attempts },
+        },
+      );
     }
     throw new MetaFlowError("Meta Flow API request failed", { details: error });
-  } finally {
-    clearTimeout(timeout);
   }
+
+  if (!response.ok) {
+    const message =
+      response.error?.userMessage ||
+      response.error?.message ||
+      "Meta Flow API request failed";
+
+    throw new MetaFlowError(message, {
+      status: response.status,
+      details: {
+        response: response.json ?? response.raw,
+        error: response.error,
+        attempts: response.attempts,
+      },
+    });
+  }
+
+  return { json: response.json };
 };
 
 const toIdentifiers = (payload: unknown): MetaFlowIdentifiers => {
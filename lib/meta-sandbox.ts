@@ -0,0 +1,778 @@
+import { createHash, randomBytes } from "node:crypto";
+import express, {
+  type Application,
+  type Request,
+  type Response,
+} from "express";
+
+import prisma from "./prisma";
+import { GraphErrorCode } from "./graph-client";
+import type { MetaWebhookPayload } from "./meta";
+import {
+  WEBHOOK_SIGNATURE_HEADER,
+  computeWebhookSignature,
+} from "./webhook-auth";
+
+/* Local stand-in for the Graph API and Meta's webhook deliveries. With
+ * `META_SANDBOX=true` the server mounts a fake Graph API under
+ * `/sandbox/graph`; pointing `GRAPH_BASE_URL` at it keeps every Graph call
+ * in-process. Outbound messages are kept in memory and inbound messages or
+ * delivery statuses are POSTed, signed with the tenant's app secret, to our
+ * own `/meta/webhook` on demand. Never enable it in production. */
+
+export const META_SANDBOX_ENABLED =
+  process.env.META_SANDBOX === "true" && process.env.NODE_ENV !== "production";
+
+export const SANDBOX_GRAPH_PREFIX = "/sandbox/graph";
+
+const SANDBOX_OUTBOX_LIMIT = 500;
+
+const ENFORCE_ALLOW_LIST =
+  process.env.META_SANDBOX_ENFORCE_ALLOW_LIST === "true";
+
+const WEBHOOK_URL =
+  process.env.META_SANDBOX_WEBHOOK_URL?.trim() ||
+  `http://127.0.0.1:${process.env.PORT ?? process.env.APP_PORT ?? "3000"}/meta/webhook`;
+
+export type SandboxOutboundMessage = {
+  id: string;
+  phoneNumberId: string;
+  to: string;
+  type: string;
+  body: Record<string, unknown>;
+  at: string;
+};
+
+type SandboxMedia = {
+  id: string;
+  phoneNumberId: string | null;
+  data: Buffer;
+  mimeType: string;
+  sha256: string;
+  filename: string | null;
+  at: string;
+};
+
+type SandboxFlow = {
+  id: string;
+  wabaId: string;
+  name: string | null;
+  status: string;
+  body: Record<string, unknown>;
+};
+
+type SandboxFailure = {
+  status: number;
+  code: number;
+  message: string;
+  remaining: number;
+  /** Only fail requests whose path contains this fragment. */
+  match: string | null;
+};
+
+const outbox: SandboxOutboundMessage[] = [];
+const media = new Map<string, SandboxMedia>();
+const flows = new Map<string, SandboxFlow>();
+const allowLists = new Map<string, Set<string>>();
+const failures: SandboxFailure[] = [];
+
+const randomDigits = (length: number) =>
+  Array.from(randomBytes(length), (byte) => String(byte % 10))
+    .join("")
+    .replace(/^0/, "1");
+
+// Same shape as Meta's ids: base64 of a protobuf-ish blob behind `wamid.`
+const createWamid = (to: string) =>
+  `wamid.${Buffer.from(`\u0018\u000b${to}\u0015\u0002\u0000\u0012\u0018${randomBytes(10).toString("hex").toUpperCase()}`).toString("base64")}`;
+
+const asRecord = (value: unknown): Record<string, unknown> | null =>
+  value && typeof value === "object" && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : null;
+
+const asString = (value: unknown): string | null =>
+  typeof value === "string" && value.trim() ? value.trim() : null;
+
+const graphError = (
+  res: Response,
+  status: number,
+  code: number,
+  message: string,
+  extra: Record<string, unknown> = {},
+) => {
+  res.status(status).json({
+    error: {
+      message,
+      type: status === 401 ? "OAuthException" : "GraphMethodException",
+      code,
+      fbtrace_id: randomBytes(9).toString("base64"),
+      ...extra,
+    },
+  });
+};
+
+/** Applies auth and injected failures; returns `false` when it responded. */
+const checkRequest = (req: Request, res: Response, path: string) => {
+  const authorization = req.get("authorization") ?? "";
+  if (
+    !authorization.toLowerCase().startsWith("bearer ") ||
+    !authorization.slice(7).trim()
+  ) {
+    graphError(
+      res,
+      401,
+      GraphErrorCode.AccessTokenExpired,
+      "An active access token must be used to query information about the current user.",
+    );
+    return false;
+  }
+
+  const index = failures.findIndex(
+    (failure) => !failure.match || path.includes(failure.match),
+  );
+  if (index !== -1) {
+    const failure = failures[index];
+    failure.remaining--;
+    if (failure.remaining <= 0) failures.splice(index, 1);
+    if (failure.status === 429) {
+      res.setHeader("Retry-After", "1");
+    }
+    graphError(res, failure.status, failure.code, failure.message, {
+      is_transient: failure.status === 429 || failure.status >= 500,
+    });
+    return false;
+  }
+
+  return true;
+};
+
+const SUPPORTED_MESSAGE_TYPES = new Set([
+  "text",
+  "image",
+  "video",
+  "audio",
+  "document",
+  "sticker",
+  "interactive",
+  "template",
+  "location",
+  "contacts",
+  "reaction",
+]);
+
+function handleSendMessage(
+  req: Request<{ phoneNumberId: string }>,
+  res: Response,
+) {
+  const body = asRecord(req.body) ?? {};
+  const to = asString(body.to);
+  const type = asString(body.type) ?? "text";
+
+  if (body.messaging_product !== "whatsapp") {
+    graphError(
+      res,
+      400,
+      100,
+      "(#100) The parameter messaging_product is required.",
+    );
+    return;
+  }
+  // Read receipts (and typing indicators) share the endpoint
+  if (body.status === "read") {
+    if (!asString(body.message_id)) {
+      graphError(res, 400, 100, "(#100) The parameter message_id is required.");
+      return;
+    }
+    res.json({ success: true });
+    return;
+  }
+  if (!to) {
+    graphError(res, 400, 100, "(#100) The parameter to is required.");
+    return;
+  }
+  if (!SUPPORTED_MESSAGE_TYPES.has(type)) {
+    graphError(res, 400, 131009, "(#131009) Parameter value is not valid", {
+      error_data: { details: `Unsupported message type: ${type}` },
+    });
+    return;
+  }
+  if (!asRecord(body[type])) {
+    graphError(res, 400, 100, `(#100) The parameter ${type} is required.`);
+    return;
+  }
+
+  const phoneNumberId = req.params.phoneNumberId;
+  if (ENFORCE_ALLOW_LIST && !allowLists.get(phoneNumberId)?.has(to)) {
+    graphError(
+      res,
+      400,
+      GraphErrorCode.RecipientNotAllowed,
+      "(#131030) Recipient phone number not in allowed list",
+      {
+        error_data: {
+          details:
+            "Recipient phone number not in allowed list: Add recipient phone number to recipient list and try again.",
+        },
+      },
+    );
+    return;
+  }
+
+  const message: SandboxOutboundMessage = {
+    id: createWamid(to),
+    phoneNumberId,
+    to,
+    type,
+    body,
+    at: new Date().toISOString(),
+  };
+  outbox.push(message);
+  if (outbox.length > SANDBOX_OUTBOX_LIMIT) {
+    outbox.splice(0, outbox.length - SANDBOX_OUTBOX_LIMIT);
+  }
+
+  res.json({
+    messaging_product: "whatsapp",
+    contacts: [{ input: to, wa_id: to }],
+    messages: [{ id: message.id }],
+  });
+}
+
+async function handleMediaUpload(
+  req: Request<{ phoneNumberId: string }>,
+  res: Response,
+) {
+  // `express.raw` leaves the multipart body as a Buffer
+  const raw: unknown = req.body;
+  const contentType = req.get("content-type") ?? "";
+  if (!contentType.startsWith("multipart/form-data") || !Buffer.isBuffer(raw)) {
+    graphError(
+      res,
+      400,
+      100,
+      "(#100) Param file must be a file with one of the following types: multipart/form-data",
+    );
+    return;
+  }
+
+  let file: File | null = null;
+  try {
+    const form = await new globalThis.Response(new Uint8Array(raw), {
+      headers: { "content-type": contentType },
+    }).formData();
+    const entry = form.get("file");
+    file = entry instanceof File ? entry : null;
+  } catch {
+    file = null;
+  }
+
+  if (!file) {
+    graphError(res, 400, 100, "(#100) The parameter file is required.");
+    return;
+  }
+
+  const stored = storeSandboxMedia(Buffer.from(await file.arrayBuffer()), {
+    mimeType: file.type || "application/octet-stream",
+    filename: file.name || null,
+    phoneNumberId: req.params.phoneNumberId,
+  });
+  res.json({ id: stored.id });
+}
+
+function handleMediaLookup(req: Request<{ mediaId: string }>, res: Response) {
+  const stored = media.get(req.params.mediaId);
+  if (!stored) {
+    graphError(
+      res,
+      400,
+      100,
+      `Unsupported get request. Object with ID '${req.params.mediaId}' does not exist, cannot be loaded due to missing permissions, or does not support this operation.`,
+      { error_subcode: 33 },
+    );
+    return;
+  }
+
+  res.json({
+    messaging_product: "whatsapp",
+    url: `http://${req.get("host")}/sandbox/media/${stored.id}`,
+    mime_type: stored.mimeType,
+    sha256: stored.sha256,
+    file_size: stored.data.length,
+    id: stored.id,
+  });
+}
+
+function handleFlows(
+  req: Request<{ wabaId: string }>,
+  res: Response,
+  method: "POST" | "PUT" | "DELETE",
+) {
+  const body = asRecord(req.body) ?? {};
+
+  if (method === "POST") {
+    const name = asString(body.name);
+    if (!name) {
+      graphError(res, 400, 100, "(#100) The parameter name is required.");
+      return;
+    }
+    const flow: SandboxFlow = {
+      id: randomDigits(16),
+      wabaId: req.params.wabaId,
+      name,
+      status: asString(body.status) ?? "DRAFT",
+      body,
+    };
+    flows.set(flow.id, flow);
+    res.json({ id: flow.id, success: true, validation_errors: [] });
+    return;
+  }
+
+  const id = asString(body.id);
+  const existing = id ? flows.get(id) : undefined;
+  if (!id || !existing) {
+    graphError(
+      res,
+      400,
+      100,
+      `(#100) Flow with ID '${id ?? ""}' does not exist.`,
+    );
+    return;
+  }
+
+  if (method === "DELETE") {
+    flows.delete(id);
+    res.json({ success: true });
+    return;
+  }
+
+  existing.name = asString(body.name) ?? existing.name;
+  existing.status = asString(body.status) ?? existing.status;
+  existing.body = body;
+  res.json({ id, success: true, validation_errors: [] });
+}
+
+export function storeSandboxMedia(
+  data: Buffer,
+  options: {
+    mimeType: string;
+    filename?: string | null;
+    phoneNumberId?: string | null;
+  },
+): SandboxMedia {
+  const stored: SandboxMedia = {
+    id: randomDigits(16),
+    phoneNumberId: options.phoneNumberId ?? null,
+    data,
+    mimeType: options.mimeType,
+    sha256: createHash("sha256").update(data).digest("hex"),
+    filename: options.filename ?? null,
+    at: new Date().toISOString(),
+  };
+  media.set(stored.id, stored);
+  return stored;
+}
+
+export const listSandboxOutbox = (
+  filters: { phoneNumberId?: string | null; to?: string | null } = {},
+) =>
+  outbox.filter(
+    (message) =>
+      (!filters.phoneNumberId ||
+        message.phoneNumberId === filters.phoneNumberId) &&
+      (!filters.to || message.to === filters.to),
+  );
+
+export const clearSandboxOutbox = () => {
+  outbox.length = 0;
+};
+
+/** Makes the next `count` Graph calls (optionally matching a path) fail. */
+export function failNextSandboxRequests(failure: {
+  code: number;
+  status?: number;
+  message?: string;
+  count?: number;
+  match?: string | null;
+}) {
+  failures.push({
+    code: failure.code,
+    status: failure.status ?? 400,
+    message: failure.message ?? `(#${failure.code}) Simulated sandbox failure`,
+    remaining: Math.max(1, failure.count ?? 1),
+    match: failure.match ?? null,
+  });
+}
+
+type SandboxTenant = {
+  id: string;
+  metaPhoneNumberId: string | null;
+  metaBusinessAccountId: string | null;
+  metaAppSecret: string | null;
+};
+
+async function loadSandboxTenant(userId: string): Promise<SandboxTenant> {
+  const tenant = (await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      id: true,
+      metaPhoneNumberId: true,
+      metaBusinessAccountId: true,
+      metaAppSecret: true,
+    },
+  })) as SandboxTenant | null;
+
+  if (!tenant) {
+    throw new Error(`Tenant ${userId} not found`);
+  }
+  if (!tenant.metaPhoneNumberId?.trim() || !tenant.metaAppSecret?.trim()) {
+    throw new Error(
+      `Tenant ${userId} needs a phone number ID and app secret to receive sandbox webhooks`,
+    );
+  }
+  return tenant;
+}
+
+const buildChangePayload = (
+  tenant: SandboxTenant,
+  value: Record<string, unknown>,
+): MetaWebhookPayload =>
+  ({
+    object: "whatsapp_business_account",
+    entry: [
+      {
+        id: tenant.metaBusinessAccountId?.trim() || randomDigits(15),
+        changes: [
+          {
+            field: "messages",
+            value: {
+              messaging_product: "whatsapp",
+              metadata: {
+                display_phone_number: "15550000000",
+                phone_number_id: tenant.metaPhoneNumberId?.trim(),
+              },
+              ...value,
+            },
+          },
+        ],
+      },
+    ],
+  }) as MetaWebhookPayload;
+
+/**
+ * Signs the payload with the tenant's app secret and POSTs it to our own
+ * webhook endpoint, exactly as Meta would.
+ */
+async function deliverSandboxWebhook(
+  tenant: SandboxTenant,
+  payload: MetaWebhookPayload,
+) {
+  const rawBody = Buffer.from(JSON.stringify(payload));
+  const response = await fetch(WEBHOOK_URL, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      [WEBHOOK_SIGNATURE_HEADER]: computeWebhookSignature(
+        rawBody,
+        tenant.metaAppSecret?.trim() ?? "",
+      ),
+    },
+    body: rawBody,
+  });
+
+  return { status: response.status, payload };
+}
+
+export type SandboxInboundMessage = {
+  from: string;
+  name?: string | null;
+  text?: string | null;
+  /** Reply to buttons or list rows sent by the bot. */
+  interactive?: {
+    type: "button_reply" | "list_reply";
+    id: string;
+    title: string;
+  } | null;
+  /** Raw message fields (e.g. `{ type: "location", location: {...} }`). */
+  message?: Record<string, unknown> | null;
+};
+
+export async function emitSandboxInboundMessage(
+  userId: string,
+  input: SandboxInboundMessage,
+) {
+  const tenant = await loadSandboxTenant(userId);
+  const from = input.from.replace(/\D/g, "");
+
+  const message: Record<string, unknown> = {
+    from,
+    id: createWamid(from),
+    timestamp: String(Math.floor(Date.now() / 1000)),
+  };
+  if (input.message) {
+    Object.assign(message, input.message);
+  } else if (input.interactive) {
+    message.type = "interactive";
+    message.interactive = {
+      type: input.interactive.type,
+      [input.interactive.type]: {
+        id: input.interactive.id,
+        title: input.interactive.title,
+      },
+    };
+  } else {
+    message.type = "text";
+    message.text = { body: input.text ?? "" };
+  }
+
+  return deliverSandboxWebhook(
+    tenant,
+    buildChangePayload(tenant, {
+      contacts: [
+        { profile: { name: input.name ?? "Sandbox User" }, wa_id: from },
+      ],
+      messages: [message],
+    }),
+  );
+}
+
+export async function emitSandboxStatus(
+  userId: string,
+  input: {
+    messageId: string;
+    status: "sent" | "delivered" | "read" | "failed";
+    recipientId?: string | null;
+    errorCode?: number | null;
+    errorTitle?: string | null;
+  },
+) {
+  const tenant = await loadSandboxTenant(userId);
+  const recipientId =
+    input.recipientId ??
+    outbox.find((message) => message.id === input.messageId)?.to ??
+    null;
+
+  if (!recipientId) {
+    throw new Error(`Unknown sandbox message ${input.messageId}`);
+  }
+
+  const status: Record<string, unknown> = {
+    id: input.messageId,
+    status: input.status,
+    timestamp: String(Math.floor(Date.now() / 1000)),
+    recipient_id: recipientId,
+  };
+  if (input.status === "failed") {
+    const code = input.errorCode ?? 131026;
+    status.errors = [
+      {
+        code,
+        title: input.errorTitle ?? "Message undeliverable",
+        message: input.errorTitle ?? "Message undeliverable",
+        error_data: { details: "Simulated failure from the Meta sandbox" },
+      },
+    ];
+  } else {
+    status.conversation = {
+      id: randomBytes(16).toString("hex"),
+      origin: { type: "service" },
+    };
+    status.pricing = {
+      billable: true,
+      pricing_model: "CBP",
+      category: "service",
+    };
+  }
+
+  return deliverSandboxWebhook(
+    tenant,
+    buildChangePayload(tenant, { statuses: [status] }),
+  );
+}
+
+const withSandboxErrors =
+  <P>(handler: (req: Request<P>, res: Response) => Promise<void>) =>
+  async (req: Request<P>, res: Response) => {
+    try {
+      await handler(req, res);
+    } catch (error) {
+      console.error("Meta sandbox request failed:", error);
+      res.status(400).json({
+        error:
+          error instanceof Error ? error.message : "Sandbox request failed",
+      });
+    }
+  };
+
+/** Mounts the fake Graph API and the sandbox control endpoints. */
+export function registerMetaSandboxRoutes(app: Application) {
+  const graph = (path: string) => `${SANDBOX_GRAPH_PREFIX}/:version${path}`;
+
+  app.post<{ phoneNumberId: string }>(
+    graph("/:phoneNumberId/messages"),
+    (req, res) => {
+      if (checkRequest(req, res, "/messages")) handleSendMessage(req, res);
+    },
+  );
+
+  app.post<{ phoneNumberId: string }>(
+    graph("/:phoneNumberId/recipients"),
+    (req, res) => {
+      if (!checkRequest(req, res, "/recipients")) return;
+      const to = asString(asRecord(req.body)?.to);
+      if (!to) {
+        graphError(res, 400, 100, "(#100) The parameter to is required.");
+        return;
+      }
+      const list = allowLists.get(req.params.phoneNumberId) ?? new Set();
+      list.add(to);
+      allowLists.set(req.params.phoneNumberId, list);
+      res.json({ success: true });
+    },
+  );
+
+  app.post<{ phoneNumberId: string }>(
+    graph("/:phoneNumberId/media"),
+    express.raw({ type: "multipart/form-data", limit: "100mb" }),
+    async (req, res) => {
+      if (checkRequest(req, res, "/media")) await handleMediaUpload(req, res);
+    },
+  );
+
+  app.post<{ wabaId: string }>(graph("/:wabaId/flows"), (req, res) => {
+    if (checkRequest(req, res, "/flows")) handleFlows(req, res, "POST");
+  });
+  app.put<{ wabaId: string }>(graph("/:wabaId/flows"), (req, res) => {
+    if (checkRequest(req, res, "/flows")) handleFlows(req, res, "PUT");
+  });
+  app.delete<{ wabaId: string }>(graph("/:wabaId/flows"), (req, res) => {
+    if (checkRequest(req, res, "/flows")) handleFlows(req, res, "DELETE");
+  });
+
+  app.get<{ mediaId: string }>(graph("/:mediaId"), (req, res) => {
+    if (checkRequest(req, res, "/media")) handleMediaLookup(req, res);
+  });
+
+  // Lookaside download URL handed out by the media lookup
+  app.get<{ mediaId: string }>("/sandbox/media/:mediaId", (req, res) => {
+    const stored = media.get(req.params.mediaId);
+    if (!stored) {
+      res.status(404).json({ error: "Media not found" });
+      return;
+    }
+    res.setHeader("Content-Type", stored.mimeType);
+    res.setHeader("Content-Length", stored.data.length);
+    res.send(stored.data);
+  });
+
+  app.get("/sandbox/outbox", (req: Request, res: Response) => {
+    res.json({
+      messages: listSandboxOutbox({
+        phoneNumberId:
+          typeof req.query.phoneNumberId === "string"
+            ? req.query.phoneNumberId
+            : null,
+        to: typeof req.query.to === "string" ? req.query.to : null,
+      }),
+    });
+  });
+
+  app.delete("/sandbox/outbox", (_req: Request, res: Response) => {
+    clearSandboxOutbox();
+    res.sendStatus(204);
+  });
+
+  app.post(
+    "/sandbox/media",
+    withSandboxErrors(async (req, res) => {
+      const body = asRecord(req.body) ?? {};
+      const data = asString(body.base64)
+        ? Buffer.from(String(body.base64), "base64")
+        : Buffer.from(asString(body.text) ?? "");
+      const stored = storeSandboxMedia(data, {
+        mimeType: asString(body.mimeType) ?? "application/octet-stream",
+        filename: asString(body.filename),
+      });
+      res.json({ id: stored.id, sha256: stored.sha256, size: data.length });
+    }),
+  );
+
+  app.post(
+    "/sandbox/failures",
+    withSandboxErrors(async (req, res) => {
+      const body = asRecord(req.body) ?? {};
+      const code = Number(body.code);
+      if (!Number.isFinite(code)) {
+        res.status(400).json({ error: 'Field "code" must be a number' });
+        return;
+      }
+      failNextSandboxRequests({
+        code,
+        status: Number.isFinite(Number(body.status))
+          ? Number(body.status)
+          : undefined,
+        message: asString(body.message) ?? undefined,
+        count: Number.isFinite(Number(body.count))
+          ? Number(body.count)
+          : undefined,
+        match: asString(body.match),
+      });
+      res.json({ pending: failures.length });
+    }),
+  );
+
+  app.post<{ userId: string }>(
+    "/sandbox/users/:userId/inbound",
+    withSandboxErrors(async (req, res) => {
+      const body = asRecord(req.body) ?? {};
+      const from = asString(body.from);
+      if (!from) {
+        res.status(400).json({ error: 'Field "from" is required' });
+        return;
+      }
+      const result = await emitSandboxInboundMessage(req.params.userId, {
+        from,
+        name: asString(body.name),
+        text: asString(body.text),
+        interactive: asRecord(
+          body.interactive,
+        ) as SandboxInboundMessage["interactive"],
+        message: asRecord(body.message),
+      });
+      res.json(result);
+    }),
+  );
+
+  app.post<{ userId: string }>(
+    "/sandbox/users/:userId/statuses",
+    withSandboxErrors(async (req, res) => {
+      const body = asRecord(req.body) ?? {};
+      const messageId = asString(body.messageId);
+      const status = asString(body.status);
+      if (
+        !messageId ||
+        !status ||
+        !["sent", "delivered", "read", "failed"].includes(status)
+      ) {
+        res.status(400).json({
+          error:
+            'Fields "messageId" and "status" (sent, delivered, read, failed) are required',
+        });
+        return;
+      }
+      const result = await emitSandboxStatus(req.params.userId, {
+        messageId,
+        status: status as "sent" | "delivered" | "read" | "failed",
+        recipientId: asString(body.recipientId),
+        errorCode: Number.isFinite(Number(body.errorCode))
+          ? Number(body.errorCode)
+          : null,
+        errorTitle: asString(body.errorTitle),
+      });
+      res.json(result);
+    }),
+  );
+
+  console.warn(
+    `Meta sandbox enabled: fake Graph API at ${SANDBOX_GRAPH_PREFIX}, webhooks delivered to ${WEBHOOK_URL}.`,
+  );
+}
@@ -6,7 +6,61 @@ import type {
 } from "@prisma/client";
 
 import prisma from "./prisma";
-import { executeFlow, FlowSendMessageError } from "./flow-executor";
+import {
+  executeFlow,
+  FlowSendMessageError,
+  type FlowRunStats,
+  type OutboundSendContext,
+} from "./flow-executor";
+import { claimInboundMessage, releaseInboundMessage } from "./inbound-dedup";
+import {
+  WEBHOOK_ERRORS_FIELD,
+  isAccountWebhookField,
+  recordAccountWebhookChange,
+} from "./account-events";
+import { contactMailboxKey, runExclusive } from "./contact-mailbox";
+import {
+  MediaError,
+  resolveInboundMessageMedia,
+  resolveSendableMedia,
+} from "./media";
+import { checkServiceWindow, recordContactInbound } from "./service-window";
+import {
+  getGraphCredentials,
+  graphRequest,
+  GraphErrorCode,
+  GraphRequestError,
+  isAccessTokenError,
+  type GraphError,
+  type GraphResponse,
+} from "./graph-client";
+import {
+  dispatchOutbound,
+  notePairRateLimited,
+  OutboundBackpressureError,
+} from "./outbound-dispatcher";
+import {
+  applyOutboundStatusUpdate,
+  recordOutboundMessage,
+  type OutboundTracking,
+} from "./outbound-messages";
+import {
+  describeInboundContacts,
+  describeInboundLocation,
+  describeInboundOrder,
+  parseInboundButton,
+  parseInboundContacts,
+  parseInboundFlowResponse,
+  parseInboundLocation,
+  parseInboundOrder,
+  parseInboundReaction,
+  type InboundButton,
+  type InboundFlowResponse,
+  type InboundLocation,
+  type InboundOrder,
+  type InboundReaction,
+  type InboundSharedContact,
+} from "./inbound-message";
 
 type SessionWithRelations = PrismaSession & {
   flow: Flow;
@@ -22,6 +76,11 @@ type WAMessageType =
   | "audio"
   | "document"
   | "sticker"
+  | "location"
+  | "contacts"
+  | "reaction"
+  | "button"
+  | "order"
   | "unknown";
 
 interface WAButtonReply {
@@ -35,10 +94,18 @@ interface WAListReply {
   description?: string;
 }
 
+// Respuesta de un WhatsApp Flow completado
+interface WANfmReply {
+  name?: string;
+  body?: string;
+  response_json?: string;
+}
+
 interface WAInteractive {
-  type: "button" | "list";
+  type: "button" | "list" | "nfm_reply";
   button_reply?: WAButtonReply;
   list_reply?: WAListReply;
+  nfm_reply?: WANfmReply;
 }
 
 interface WAMedia {
@@ -58,6 +125,47 @@ interface WADocument extends WAMedia {
 }
 type WASticker = WAMedia;
 
+interface WALocation {
+  latitude: number;
+  longitude: number;
+  name?: string;
+  address?: string;
+  url?: string;
+}
+
+interface WASharedContact {
+  name?: {
+    formatted_name?: string;
+    first_name?: string;
+    last_name?: string;
+  };
+  phones?: Array<{ phone?: string; wa_id?: string; type?: string }>;
+  emails?: Array<{ email?: string; type?: string }>;
+  org?: { company?: string; title?: string };
+}
+
+interface WAReaction {
+  message_id?: string;
+  emoji?: string;
+}
+
+// Quick-reply de plantillas
+interface WAButton {
+  text?: string;
+  payload?: string;
+}
+
+interface WAOrder {
+  catalog_id?: string;
+  text?: string;
+  product_items?: Array<{
+    product_retailer_id?: string;
+    quantity?: number | string;
+    item_price?: number | string;
+    currency?: string;
+  }>;
+}
+
 interface WAMessage {
   id: string;
   from: string;
@@ -70,6 +178,11 @@ interface WAMessage {
   audio?: WAAudio;
   document?: WADocument;
   sticker?: WASticker;
+  location?: WALocation;
+  contacts?: WASharedContact[];
+  reaction?: WAReaction;
+  button?: WAButton;
+  order?: WAOrder;
 }
 
 interface WAStatusError {
@@ -120,7 +233,10 @@ interface WAChangeValue {
 }
 
 interface WAEntry {
-  changes?: { value?: WAChangeValue }[];
+  id?: string;
+  /** Seconds since the epoch. */
+  time?: number;
+  changes?: { field?: string; value?: WAChangeValue }[];
 }
 
 export interface MetaWebhookEvent {
@@ -154,6 +270,12 @@ export type ManualFlowTriggerOptions = {
     audio?: Record<string, unknown> | null;
     document?: Record<string, unknown> | null;
     sticker?: Record<string, unknown> | null;
+    location?: InboundLocation | null;
+    contacts?: InboundSharedContact[] | null;
+    reaction?: InboundReaction | null;
+    button?: InboundButton | null;
+    order?: InboundOrder | null;
+    flowResponse?: InboundFlowResponse | null;
   } | null;
 };
 
@@ -523,6 +645,7 @@ const LOG_STATUS_MAP: Record<string, string> = {
   Paused: "In Progress",
   Completed: "Completed",
   Errored: "Error",
+  Expired: "Expired",
 };
 
 async function recordSessionSnapshot(sessionId: string) {
@@ -563,6 +686,8 @@ async function recordSessionSnapshot(sessionId: string) {
 type ContactResolutionOptions = {
   name?: string | null;
   alternatePhones?: string[];
+  /** Look the contact up without creating or updating it. */
+  dryRun?: boolean;
 };
 
 async function getOrCreateContactForUser(
@@ -612,6 +737,24 @@ async function getOrCreateContactForUser(
       ? options.name.trim()
       : null;
 
+  if (options.dryRun) {
+    // Unknown senders get a throwaway contact that is never saved
+    const now = new Date();
+    return (
+      contact ??
+      ({
+        id: `dryrun-contact-${canonicalPhone}`,
+        phone: canonicalPhone,
+        name: normalizedName,
+        createdAt: now,
+        updatedAt: now,
+        userId,
+        notes: null,
+        lastInboundAt: null,
+      } as Contact)
+    );
+  }
+
   if (!contact) {
     try {
       contact = await prisma.contact.create({
@@ -664,15 +807,54 @@ async function getOrCreateContactForUser(
   return contact;
 }
 
+/**
+ * In-memory stand-in for the session a dry run would create or reset, so the
+ * run starts where a live one would without writing the row.
+ */
+const buildDryRunSession = (
+  contact: Contact,
+  flow: Flow,
+  existing: SessionWithRelations | null,
+): SessionWithRelations => {
+  const now = new Date();
+  const base = existing ?? {
+    id: `dryrun-session-${contact.id}-${flow.id}`,
+    createdAt: now,
+    contactId: contact.id,
+    flowId: flow.id,
+  };
+  const reusable =
+    existing &&
+    existing.status !== "Completed" &&
+    existing.status !== "Errored" &&
+    existing.status !== "Expired";
+
+  return {
+    ...base,
+    status: reusable ? existing.status : "Active",
+    currentNodeId: reusable ? existing.currentNodeId : null,
+    context: reusable ? existing.context : {},
+    wakeAt: null,
+    updatedAt: now,
+    flow,
+    contact,
+  } as SessionWithRelations;
+};
+
 async function ensureActiveSessionForFlow(
   contact: Contact,
   flow: Flow,
+  options: { dryRun?: boolean } = {},
 ): Promise<SessionWithRelations> {
   let session = (await prisma.session.findUnique({
     where: { contactId_flowId: { contactId: contact.id, flowId: flow.id } },
     include: { flow: true, contact: true },
   })) as SessionWithRelations | null;
 
+  if (options.dryRun) {
+    return buildDryRunSession(contact, flow, session);
+  }
+
   if (!session) {
     session = (await prisma.session.create({
       data: { contactId: contact.id, flowId: flow.id, status: "Active" },
@@ -681,7 +863,11 @@ async function ensureActiveSessionForFlow(
     return session;
   }
 
-  if (session.status === "Completed" || session.status === "Errored") {
+  if (
+    session.status === "Completed" ||
+    session.status === "Errored" ||
+    session.status === "Expired"
+  ) {
     session = (await prisma.session.update({
       where: { id: session.id },
       data: { status: "Active", currentNodeId: null, context: {} },
@@ -704,10 +890,56 @@ async function ensureActiveSessionForFlow(
   return session;
 }
 
+type FlowMessageSender = (
+  userId: string,
+  to: string,
+  payload: SendMessagePayload,
+  context?: OutboundSendContext,
+) => Promise<SendMessageResult>;
+
+const liveSender: FlowMessageSender = (uid, to, payload, context) => {
+  const { replyTo, ...tracking } = context ?? {};
+  return sendMessage(uid, to, payload, {
+    replyTo,
+    tracking: { source: "Flow", ...tracking },
+  });
+};
+
+/**
+ * Sender used by dry-run replays: nothing reaches the Graph API, the payloads
+ * are captured so the caller can inspect what the flow would have sent.
+ */
+const createDryRunSender =
+  (outbox: DryRunOutboundMessage[]): FlowMessageSender =>
+  async (uid, to, payload) => {
+    outbox.push({
+      userId: uid,
+      to,
+      message: payload,
+      at: new Date().toISOString(),
+    });
+    return { success: true, messageId: `dryrun.${outbox.length}` };
+  };
+
+/**
+ * Failures worth retrying the whole message for: throttling that outlasted
+ * the client's retries, and anything that is not a send error (database
+ * outages and the like). Other failed sends are permanent or may already
+ * have reached the customer, so replaying the step could duplicate them.
+ */
+const isTransientFlowFailure = (error: unknown) => {
+  if (!(error instanceof FlowSendMessageError)) {
+    return true;
+  }
+  return error.status === 429;
+};
+
 async function handleIncomingWhatsappMessage(
   userId: string,
   message: WAMessage,
   contactProfile: ContactIndexEntry | undefined,
+  send: FlowMessageSender = liveSender,
+  dryRun = false,
 ) {
   const fromRaw = typeof message.from === "string" ? message.from : "";
   const from = fromRaw.trim();
@@ -721,13 +953,36 @@ async function handleIncomingWhatsappMessage(
     return;
   }
 
+  let contact: Contact;
+  try {
+    contact = await getOrCreateContactForUser(userId, from, {
+      name: contactProfile?.name ?? null,
+      dryRun,
+    });
+  } catch (error) {
+    // Rethrown so the message is retried instead of dropped
+    console.error(`Failed to resolve contact for phone ${from}:`, error);
+    throw error;
+  }
+
+  // Any inbound message reopens the customer service window, even one the
+  // flows ignore below
+  if (!dryRun) {
+    await recordContactInbound(
+      contact.id,
+      parseStatusTimestamp(message.timestamp ?? null) ?? new Date(),
+    );
+  }
+
   const interactiveTitle =
     message.interactive?.button_reply?.title ??
     message.interactive?.list_reply?.title ??
+    message.button?.text ??
     null;
   const interactiveId =
     message.interactive?.button_reply?.id ??
     message.interactive?.list_reply?.id ??
+    message.button?.payload ??
     null;
 
   const textRaw = extractUserText(message);
@@ -746,16 +1001,6 @@ async function handleIncomingWhatsappMessage(
     return;
   }
 
-  let contact: Contact;
-  try {
-    contact = await getOrCreateContactForUser(userId, from, {
-      name: contactProfile?.name ?? null,
-    });
-  } catch (error) {
-    console.error(`Failed to resolve contact for phone ${from}:`, error);
-    return;
-  }
-
   const existingSession = (await prisma.session.findFirst({
     where: {
       contactId: contact.id,
@@ -801,13 +1046,13 @@ async function handleIncomingWhatsappMessage(
   }
 
   try {
-    session = await ensureActiveSessionForFlow(contact, flow);
+    session = await ensureActiveSessionForFlow(contact, flow, { dryRun });
   } catch (error) {
     console.error(
       `Failed to create or resume session for contact ${contact.id}:`,
       error,
     );
-    return;
+    throw error;
   }
 
   if (!session) {
@@ -818,6 +1063,7 @@ async function handleIncomingWhatsappMessage(
   }
 
   const incomingMeta = {
+    messageId: message.id ?? null,
     type: message.type ?? null,
     rawText: message.text?.body ?? textRaw ?? null,
     interactive: message.interactive
@@ -838,17 +1084,55 @@ async function handleIncomingWhatsappMessage(
     audio: toRecordIfObject(message.audio),
     document: toRecordIfObject(message.document),
     sticker: toRecordIfObject(message.sticker),
+    // Dry runs don't download or store the media
+    media: dryRun ? null : await resolveInboundMessageMedia(userId, message),
+    location: parseInboundLocation(message.location),
+    contacts: parseInboundContacts(message.contacts),
+    reaction: parseInboundReaction(message.reaction),
+    button: parseInboundButton(message.button),
+    order: parseInboundOrder(message.order),
+    flowResponse: parseInboundFlowResponse(message.interactive?.nfm_reply),
   };
 
+  if (dryRun) {
+    await executeFlow(session, text, send, incomingMeta, { dryRun });
+    return;
+  }
+
+  const stats: FlowRunStats = { sent: 0 };
   try {
-    await executeFlow(
-      session,
-      text,
-      (uid, to, payload) => sendMessage(uid, to, payload),
-      incomingMeta,
-    );
+    await executeFlow(session, text, send, incomingMeta, { stats });
   } catch (error) {
     console.error(`Error executing flow for message ${message.id}:`, error);
+
+    if (isTransientFlowFailure(error) && stats.sent) {
+      // The executor parked the run at the failed node; the retry continues
+      // from there without resending what already went out
+      throw error;
+    }
+
+    if (isTransientFlowFailure(error)) {
+      // Nothing went out: put the session back where this message found it
+      // and rethrow, so the retry replays the run from the start
+      try {
+        await prisma.session.update({
+          where: { id: session.id },
+          data: {
+            status: session.status,
+            currentNodeId: session.currentNodeId ?? null,
+            context: (session.context ?? {}) as Prisma.InputJsonValue,
+            wakeAt: session.wakeAt ?? null,
+          },
+        });
+      } catch (restoreError) {
+        console.error(
+          `Failed to restore session ${session.id} after a transient failure:`,
+          restoreError,
+        );
+      }
+      throw error;
+    }
+
     try {
       await prisma.session.update({
         where: { id: session.id },
@@ -872,7 +1156,71 @@ async function handleIncomingWhatsappMessage(
   }
 }
 
+/**
+ * Wakes a paused session once its `wakeAt` is due: a delay node that should
+ * continue, or an inactivity reminder or timeout to enforce. The
+ * wake-up is claimed by clearing `wakeAt`, so when several processes run the
+ * scheduler only one of them resumes the session.
+ */
+export async function resumeScheduledSession(sessionId: string) {
+  const pending = (await prisma.session.findUnique({
+    where: { id: sessionId },
+    include: { flow: true, contact: true },
+  })) as SessionWithRelations | null;
+  if (!pending?.flow || !pending.contact) {
+    return false;
+  }
+
+  const key = contactMailboxKey(pending.flow.userId, pending.contact.phone);
+  return runExclusive(key, async () => {
+    const claimed = await prisma.session.updateMany({
+      where: { id: sessionId, status: "Paused", wakeAt: { lte: new Date() } },
+      data: { wakeAt: null },
+    });
+    if (!claimed?.count) {
+      // An inbound message or another scheduler got there first
+      return false;
+    }
+
+    const session = (await prisma.session.findUnique({
+      where: { id: sessionId },
+      include: { flow: true, contact: true },
+    })) as SessionWithRelations | null;
+    if (!session) {
+      return false;
+    }
+
+    try {
+      await executeFlow(session, null, liveSender);
+    } catch (error) {
+      console.error(`Error resuming scheduled session ${session.id}:`, error);
+      try {
+        await prisma.session.update({
+          where: { id: session.id },
+          data: { status: "Errored" },
+        });
+      } catch (updateError) {
+        console.error(
+          `Failed to mark session ${session.id} as errored after execution failure:`,
+          updateError,
+        );
+      }
+    } finally {
+      try {
+        await recordSessionSnapshot(session.id);
+      } catch (snapshotError) {
+        console.error(
+          `Failed to record session snapshot for ${session.id}:`,
+          snapshotError,
+        );
+      }
+    }
+    return true;
+  });
+}
+
 async function processBroadcastStatuses(userId: string, statuses: WAStatus[]) {
+  const failures: unknown[] = [];
   for (const status of statuses) {
     if (!status) continue;
 
@@ -942,8 +1290,72 @@ async function processBroadcastStatuses(userId: string, statuses: WAStatus[]) {
         messageId,
         error,
       );
+      failures.push(error);
+    }
+  }
+  if (failures.length) {
+    throw new WebhookProcessingError(failures);
+  }
+}
+
+function extractStatusErrorCode(
+  errors?: WAStatusError[] | null,
+): number | null {
+  const code = errors?.[0]?.code;
+  const numeric = typeof code === "string" ? Number(code) : code;
+  return typeof numeric === "number" && Number.isFinite(numeric)
+    ? numeric
+    : null;
+}
+
+/* Actualiza la línea de tiempo de los mensajes enviados por flujos,
+ * disparos manuales y agentes (los de broadcasts se siguen aparte). */
+async function processOutboundStatuses(userId: string, statuses: WAStatus[]) {
+  const failures: unknown[] = [];
+  for (const status of statuses) {
+    const messageId =
+      typeof status?.id === "string" && status.id.trim().length > 0
+        ? status.id.trim()
+        : null;
+    const nextStatus = mapWhatsappStatus(status?.status ?? null);
+
+    if (!messageId || !nextStatus) continue;
+
+    const failed = BROADCAST_FAILURE_STATUSES.has(nextStatus);
+    const conversationId =
+      typeof status.conversation?.id === "string" &&
+      status.conversation.id.trim().length > 0
+        ? status.conversation.id.trim()
+        : null;
+
+    try {
+      await applyOutboundStatusUpdate(userId, {
+        waMessageId: messageId,
+        status: nextStatus,
+        occurredAt:
+          parseStatusTimestamp(status.timestamp ?? null) ?? new Date(),
+        error: failed
+          ? (extractStatusError(status.errors ?? null) ??
+            "Meta reported delivery failure")
+          : null,
+        errorCode: failed
+          ? extractStatusErrorCode(status.errors ?? null)
+          : null,
+        conversationId,
+        raw: status,
+      });
+    } catch (error) {
+      console.error(
+        "Failed to process outbound status update for message:",
+        messageId,
+        error,
+      );
+      failures.push(error);
     }
   }
+  if (failures.length) {
+    throw new WebhookProcessingError(failures);
+  }
 }
 
 /**
@@ -969,6 +1381,10 @@ function extractUserText(msg: WAMessage): string | null {
         return listTitle;
       }
 
+      if (msg.interactive?.type === "nfm_reply") {
+        return msg.interactive.nfm_reply?.body?.trim() || "[flow_response]";
+      }
+
       const fallbackId =
         msg.interactive?.button_reply?.id?.trim() ??
         msg.interactive?.list_reply?.id?.trim() ??
@@ -992,6 +1408,27 @@ function extractUserText(msg: WAMessage): string | null {
     case "sticker":
       return "[sticker]";
 
+    case "location": {
+      const location = parseInboundLocation(msg.location);
+      return location ? describeInboundLocation(location) : "[location]";
+    }
+
+    case "contacts": {
+      const contacts = parseInboundContacts(msg.contacts);
+      return contacts ? describeInboundContacts(contacts) : "[contacts]";
+    }
+
+    case "reaction":
+      return msg.reaction?.emoji?.trim() || "[reaction]";
+
+    case "button":
+      return msg.button?.text?.trim() || msg.button?.payload?.trim() || null;
+
+    case "order": {
+      const order = parseInboundOrder(msg.order);
+      return order ? describeInboundOrder(order) : "[order]";
+    }
+
     case "unknown":
       console.warn("Received a message of unknown type:", msg);
       return "[unknown_message]";
@@ -1005,14 +1442,24 @@ function extractUserText(msg: WAMessage): string | null {
 }
 
 /* ====== Procesador de Webhook ====== */
-const extractWebhookChangeValues = (
+type WebhookChange = {
+  /** `field` del cambio; Meta omite el campo en algunos payloads de prueba. */
+  field: string | null;
+  /** `entry.id`: el WhatsApp Business Account que originó el cambio. */
+  entryId: string | null;
+  /** `entry.time`: cuándo Meta generó la entrada (segundos). */
+  entryTime: number | null;
+  value: WAChangeValue;
+};
+
+const extractWebhookChanges = (
   payload: MetaWebhookPayload,
-): WAChangeValue[] => {
+): WebhookChange[] => {
   if (!payload || typeof payload !== "object") {
     return [];
   }
 
-  const changeValues: WAChangeValue[] = [];
+  const changes: WebhookChange[] = [];
 
   const entries =
     "entry" in payload && Array.isArray(payload.entry) ? payload.entry : null;
@@ -1020,16 +1467,29 @@ const extractWebhookChangeValues = (
   if (entries?.length) {
     for (const entry of entries) {
       if (!entry || typeof entry !== "object") continue;
-      const changes = Array.isArray(entry.changes) ? entry.changes : [];
-      for (const change of changes) {
+      const entryId =
+        typeof entry.id === "string" && entry.id.trim()
+          ? entry.id.trim()
+          : null;
+      const entryTime =
+        typeof entry.time === "number" && Number.isFinite(entry.time)
+          ? entry.time
+          : null;
+      const entryChanges = Array.isArray(entry.changes) ? entry.changes : [];
+      for (const change of entryChanges) {
         const value = change?.value;
         if (value && typeof value === "object") {
-          changeValues.push(value as WAChangeValue);
+          changes.push({
+            field: typeof change.field === "string" ? change.field : null,
+            entryId,
+            entryTime,
+            value: value as WAChangeValue,
+          });
         }
       }
     }
 
-    return changeValues;
+    return changes;
   }
 
   const standaloneValue =
@@ -1038,40 +1498,246 @@ const extractWebhookChangeValues = (
       : null;
 
   if (standaloneValue) {
-    changeValues.push(standaloneValue as WAChangeValue);
+    changes.push({
+      field:
+        "field" in payload && typeof payload.field === "string"
+          ? payload.field
+          : null,
+      entryId: null,
+      entryTime: null,
+      value: standaloneValue as WAChangeValue,
+    });
   }
 
-  return changeValues;
+  return changes;
+};
+
+export type WebhookTenantRefs = {
+  phoneNumberIds: string[];
+  businessAccountIds: string[];
 };
 
-export async function processWebhookEvent(data: MetaWebhookPayload) {
+/**
+ * Devuelve los `phone_number_id` y WABA ids únicos referenciados por el
+ * payload. Se usa para resolver qué tenant(s) deben firmar el webhook.
+ */
+export const collectWebhookTenantRefs = (
+  payload: MetaWebhookPayload,
+): WebhookTenantRefs => {
+  const phoneNumberIds = new Set<string>();
+  const businessAccountIds = new Set<string>();
+  for (const change of extractWebhookChanges(payload)) {
+    if (isAccountWebhookField(change.field)) {
+      if (change.entryId) businessAccountIds.add(change.entryId);
+      continue;
+    }
+    const phoneNumberId = change.value?.metadata?.phone_number_id;
+    if (typeof phoneNumberId === "string" && phoneNumberId.trim()) {
+      phoneNumberIds.add(phoneNumberId.trim());
+    }
+  }
+  return {
+    phoneNumberIds: Array.from(phoneNumberIds),
+    businessAccountIds: Array.from(businessAccountIds),
+  };
+};
+
+export type DryRunOutboundMessage = {
+  userId: string;
+  to: string;
+  message: SendMessagePayload;
+  at: string;
+};
+
+export type ProcessWebhookOptions = {
+  /** Tenant resolved from the webhook route (`/meta/webhook/:userId`). */
+  userId?: string | null;
+  /**
+   * Run flows without calling the Graph API or writing contacts, sessions,
+   * statuses or media; sends land in `outbox`.
+   */
+  dryRun?: boolean;
+  outbox?: DryRunOutboundMessage[];
+  /** Process messages already in the dedup ledger (replays). */
+  skipDedup?: boolean;
+};
+
+async function resolveUserForWebhookChange(
+  phoneNumberId: string,
+  businessAccountId: string | null,
+  scopedUserId: string | null,
+) {
+  if (!scopedUserId) {
+    return resolveUserForPhoneNumber(phoneNumberId);
+  }
+
+  const user = await prisma.user.findUnique({ where: { id: scopedUserId } });
+  if (!user) {
+    return null;
+  }
+
+  const ownedPhoneNumberId = user.metaPhoneNumberId?.trim() ?? "";
+  if (ownedPhoneNumberId) {
+    if (ownedPhoneNumberId !== phoneNumberId.trim()) {
+      console.warn(
+        `Skipping change for phone number ID ${phoneNumberId}: tenant ${scopedUserId} owns ${ownedPhoneNumberId}.`,
+      );
+      return null;
+    }
+    return user;
+  }
+
+  // Without a configured number, the change must come from the tenant's WABA;
+  // otherwise events for another tenant's number would be processed here
+  const ownedBusinessAccountId = user.metaBusinessAccountId?.trim() ?? "";
+  if (
+    !ownedBusinessAccountId ||
+    ownedBusinessAccountId !== businessAccountId?.trim()
+  ) {
+    console.warn(
+      `Skipping change for phone number ID ${phoneNumberId}: tenant ${scopedUserId} has no phone number configured and the business account does not match.`,
+    );
+    return null;
+  }
+
+  return user;
+}
+
+async function resolveUserForBusinessAccount(
+  businessAccountId: string | null,
+  scopedUserId: string | null,
+) {
+  if (scopedUserId) {
+    return prisma.user.findUnique({ where: { id: scopedUserId } });
+  }
+
+  const normalizedId = businessAccountId?.trim() ?? "";
+  if (!normalizedId) {
+    return null;
+  }
+
+  return prisma.user.findFirst({
+    where: { metaBusinessAccountId: normalizedId },
+  });
+}
+
+/**
+ * Raised once a payload has been fully processed if any of its changes or
+ * messages failed, so the webhook job is retried. The retry replays the whole
+ * payload: messages that did go through are skipped by the dedup ledger, and
+ * account events and status updates are keyed so they are recorded once.
+ */
+export class WebhookProcessingError extends Error {
+  failures: unknown[];
+
+  constructor(failures: unknown[]) {
+    const first = failures[0];
+    const detail =
+      first instanceof Error ? first.message : String(first ?? "unknown");
+    super(
+      `${failures.length} webhook item(s) failed to process; first error: ${detail}`,
+    );
+    this.name = "WebhookProcessingError";
+    this.failures = failures;
+  }
+}
+
+export async function processWebhookEvent(
+  data: MetaWebhookPayload,
+  options: ProcessWebhookOptions = {},
+) {
+  const scopedUserId = options.userId?.trim() || null;
+  const send = options.dryRun
+    ? createDryRunSender(options.outbox ?? [])
+    : liveSender;
+
   if (process.env.NODE_ENV === "development") {
     console.log("Received webhook event:", JSON.stringify(data, null, 2));
   } else {
     console.log("Received webhook event.");
   }
 
-  const changeValues = extractWebhookChangeValues(data);
+  const changes = extractWebhookChanges(data);
 
-  if (!changeValues.length) {
+  if (!changes.length) {
     console.warn("Received webhook event without changes to process.");
     return;
   }
 
-  for (const val of changeValues) {
+  const pending: Promise<void>[] = [];
+  const failures: unknown[] = [];
+
+  for (const change of changes) {
+    if (isAccountWebhookField(change.field)) {
+      const owner = await resolveUserForBusinessAccount(
+        change.entryId,
+        scopedUserId,
+      );
+      if (!owner) {
+        console.error(
+          `User not found for ${change.field} event on business account:`,
+          change.entryId,
+        );
+        continue;
+      }
+
+      if (options.dryRun) continue;
+
+      try {
+        await recordAccountWebhookChange(owner.id, change.field, change.value, {
+          entryId: change.entryId,
+          entryTime: change.entryTime,
+        });
+      } catch (error) {
+        console.error(`Failed to record ${change.field} event:`, error);
+        failures.push(error);
+      }
+      continue;
+    }
+
+    const val = change.value;
     const phoneNumberId = val?.metadata?.phone_number_id;
     if (!phoneNumberId) continue;
 
-    // Resolvemos el “owner” del número
-    const user = await resolveUserForPhoneNumber(phoneNumberId);
+    // Resolvemos el “owner” del número (o usamos el tenant de la ruta)
+    const user = await resolveUserForWebhookChange(
+      phoneNumberId,
+      change.entryId,
+      scopedUserId,
+    );
     if (!user) {
       console.error("User not found for phone number ID:", phoneNumberId);
       continue;
     }
 
-    const statuses = Array.isArray(val?.statuses) ? val.statuses : [];
+    // Dry runs only replay messages through the flows; account events and
+    // statuses would be written as-is
+    const changeErrors =
+      !options.dryRun && Array.isArray(val?.errors) ? val.errors : [];
+    for (const changeError of changeErrors) {
+      try {
+        await recordAccountWebhookChange(
+          user.id,
+          WEBHOOK_ERRORS_FIELD,
+          changeError,
+          { entryId: change.entryId, entryTime: change.entryTime },
+        );
+      } catch (error) {
+        console.error("Failed to record webhook error event:", error);
+        failures.push(error);
+      }
+    }
+
+    const statuses =
+      !options.dryRun && Array.isArray(val?.statuses) ? val.statuses : [];
     if (statuses.length) {
-      await processBroadcastStatuses(user.id, statuses);
+      for (const apply of [processOutboundStatuses, processBroadcastStatuses]) {
+        try {
+          await apply(user.id, statuses);
+        } catch (error) {
+          failures.push(error);
+        }
+      }
     }
 
     const messages = Array.isArray(val?.messages) ? val.messages : [];
@@ -1079,16 +1745,54 @@ export async function processWebhookEvent(data: MetaWebhookPayload) {
 
     const contactIndex = indexWhatsappContacts(val?.contacts);
 
-    // Procesamos cada mensaje (Meta puede agruparlos)
+    // Procesamos cada mensaje (Meta puede agruparlos). Los de un mismo
+    // contacto se serializan en su mailbox; los de distintos, en paralelo.
     for (const msg of messages) {
-      try {
-        const profile = msg.from ? contactIndex.get(msg.from) : undefined;
-        await handleIncomingWhatsappMessage(user.id, msg, profile);
-      } catch (error) {
-        console.error(`Unhandled error processing message ${msg.id}:`, error);
-      }
+      const sender = typeof msg?.from === "string" ? msg.from : "";
+      const key = contactMailboxKey(user.id, sender);
+      pending.push(
+        runExclusive(key, async () => {
+          const messageId = typeof msg?.id === "string" ? msg.id : "";
+          let claimed = false;
+          try {
+            if (messageId && !options.skipDedup && !options.dryRun) {
+              if (!(await claimInboundMessage(user.id, messageId))) {
+                console.log(
+                  `Skipping duplicate delivery of message ${messageId}.`,
+                );
+                return;
+              }
+              claimed = true;
+            }
+
+            const profile = sender ? contactIndex.get(sender) : undefined;
+            await handleIncomingWhatsappMessage(
+              user.id,
+              msg,
+              profile,
+              send,
+              options.dryRun,
+            );
+          } catch (error) {
+            console.error(
+              `Unhandled error processing message ${msg?.id}:`,
+              error,
+            );
+            if (claimed) {
+              await releaseInboundMessage(messageId);
+            }
+            failures.push(error);
+          }
+        }),
+      );
     }
   }
+
+  await Promise.all(pending);
+
+  if (failures.length) {
+    throw new WebhookProcessingError(failures);
+  }
 }
 
 export async function processManualFlowTrigger(
@@ -1158,6 +1862,26 @@ export async function processManualFlowTrigger(
     return { success: false, status: 400, error: "Message text is required" };
   }
 
+  return runExclusive(contactMailboxKey(flow.userId, normalizedPhone), () =>
+    runManualFlowTrigger(flow, options, {
+      rawPhone,
+      normalizedPhone,
+      candidateMessage,
+    }),
+  );
+}
+
+async function runManualFlowTrigger(
+  flow: Flow,
+  options: ManualFlowTriggerOptions,
+  input: {
+    rawPhone: string;
+    normalizedPhone: string;
+    candidateMessage: string;
+  },
+): Promise<ManualFlowTriggerResult> {
+  const { rawPhone, normalizedPhone, candidateMessage } = input;
+
   let contact: Contact;
   try {
     const alternates =
@@ -1230,7 +1954,13 @@ export async function processManualFlowTrigger(
     await executeFlow(
       activeSession,
       candidateMessage,
-      (uid, to, payload) => sendMessage(uid, to, payload),
+      (uid, to, payload, context) => {
+        const { replyTo, ...tracking } = context ?? {};
+        return sendMessage(uid, to, payload, {
+          replyTo,
+          tracking: { source: "Manual", ...tracking },
+        });
+      },
       incomingMeta,
     );
 
@@ -1269,14 +1999,53 @@ export async function processManualFlowTrigger(
 }
 
 /* ===== Envío de mensajes a WhatsApp (Graph API) ===== */
+type TemplateMediaObject = { id?: string; link?: string };
+
+/** Template parameters in the shape the Graph API expects. */
+export type TemplateComponentParameter =
+  | { type: "text"; text: string }
+  | {
+      type: "currency";
+      currency: { fallback_value: string; code: string; amount_1000: number };
+    }
+  | { type: "date_time"; date_time: { fallback_value: string } }
+  | { type: "image"; image: TemplateMediaObject }
+  | { type: "video"; video: TemplateMediaObject }
+  | {
+      type: "document";
+      document: TemplateMediaObject & { filename?: string };
+    }
+  | {
+      type: "location";
+      location: {
+        latitude: number;
+        longitude: number;
+        name?: string;
+        address?: string;
+      };
+    }
+  | { type: "payload"; payload: string }
+  | { type: "coupon_code"; coupon_code: string }
+  | {
+      type: "action";
+      action: {
+        flow_token: string;
+        flow_action_data?: Record<string, unknown>;
+      };
+    };
+
 type SendMessagePayload =
   | { type: "text"; text: string }
+  // Read receipt for an inbound message, optionally showing "typing…"
+  | { type: "read"; messageId: string; typing?: boolean }
   | {
       type: "media";
       mediaType: "image" | "video" | "audio" | "document";
       id?: string;
       url?: string;
       caption?: string;
+      /** Media library entry, uploaded to Meta on demand. */
+      assetId?: string;
     }
   | { type: "options"; text: string; options: string[] }
   | {
@@ -1285,7 +2054,7 @@ type SendMessagePayload =
       button: string;
       sections: Array<{
         title: string;
-        rows: Array<{ id: string; title: string }>;
+        rows: Array<{ id: string; title: string; description?: string }>;
       }>;
     }
   | {
@@ -1310,13 +2079,18 @@ type SendMessagePayload =
           type: string;
           subType?: string | null;
           index?: number | null;
-          parameters?: Array<{ type: "text"; text: string }>;
+          parameters?: TemplateComponentParameter[];
         }>;
       };
     };
 
 export type SendMessageResult =
-  | { success: true; messageId?: string | null; conversationId?: string | null }
+  | {
+      success: true;
+      messageId?: string | null;
+      conversationId?: string | null;
+      details?: unknown;
+    }
   | {
       success: false;
       error?: string;
@@ -1324,82 +2098,53 @@ export type SendMessageResult =
       details?: unknown;
     };
 
-export const GRAPH_VERSION = "v23.0";
-export const META_API_TIMEOUT_MS = 15000;
-
 type SendMessageOptions = {
   allowListAttempted?: boolean;
+  /** Inbound message to quote (`context.message_id`). */
+  replyTo?: string | null;
+  /** Attribution stored on the `OutboundMessage` row. */
+  tracking?: OutboundTracking;
 };
 
-type MetaErrorPayload = {
-  error?: {
-    message?: string;
-    error_user_msg?: string;
-    code?: number;
-    error_subcode?: number;
-  };
+type GraphSendResponse = {
+  messages?: Array<{ id?: string }>;
+  contacts?: Array<{ wa_id?: string }>;
 };
 
 type AllowListResult =
   | { success: true; details?: unknown }
   | { success: false; status?: number; error?: string; details?: unknown };
 
-const RECIPIENT_NOT_ALLOWED_ERROR_CODE = 131030;
-
 async function addRecipientToAllowList(
   accessToken: string,
   phoneNumberId: string,
   recipientPhone: string,
 ): Promise<AllowListResult> {
-  const url = `https://graph.facebook.com/${GRAPH_VERSION}/${phoneNumberId}/recipients`;
-  const controller = new AbortController();
-  const timeout = setTimeout(() => controller.abort(), META_API_TIMEOUT_MS);
-
   try {
-    const response = await fetch(url, {
+    const response = await graphRequest({
       method: "POST",
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
+      path: `${phoneNumberId}/recipients`,
+      accessToken,
+      body: {
         messaging_product: "whatsapp",
         to: recipientPhone,
-      }),
-      signal: controller.signal,
+      },
+      // Registrar dos veces el mismo número no tiene efecto
+      retry: { idempotent: true },
+      label: "Adding phone number to WhatsApp allow list",
     });
 
-    const raw = await response.text().catch(() => "");
-    let json: unknown;
-
-    if (raw) {
-      try {
-        json = JSON.parse(raw);
-      } catch {
-        json = undefined;
-      }
-    }
-
     if (!response.ok) {
-      const payload = json as MetaErrorPayload | undefined;
       const message =
-        payload?.error?.error_user_msg?.trim() ||
-        payload?.error?.message?.trim() ||
-        raw ||
-        response.statusText ||
+        response.error?.userMessage ||
+        response.error?.message ||
         "Failed to add phone number to WhatsApp test allow list";
 
-      console.error(
-        "Failed to add phone number to WhatsApp allow list:",
-        response.status,
-        message,
-      );
-
       return {
         success: false,
         status: response.status,
         error: message,
-        details: payload ?? json ?? raw,
+        details: response.json ?? response.raw,
       };
     }
 
@@ -1408,13 +2153,9 @@ async function addRecipientToAllowList(
       recipientPhone,
     );
 
-    return { success: true, details: json ?? raw };
+    return { success: true, details: response.json ?? response.raw };
   } catch (error) {
-    if (error instanceof Error && error.name === "AbortError") {
-      console.error(
-        "Timed out while adding phone number to WhatsApp allow list",
-        recipientPhone,
-      );
+    if (error instanceof GraphRequestError && error.kind === "timeout") {
       return {
         success: false,
         error: "Request to Meta timed out while registering the recipient",
@@ -1433,16 +2174,289 @@ async function addRecipientToAllowList(
           ? error.message
           : "Unknown error while registering recipient",
     };
-  } finally {
-    clearTimeout(timeout);
   }
 }
 
+const WA_MAX_REPLY_BUTTONS = 3;
+
+// Límites de Meta para mensajes de lista
+const LIST_LIMITS = {
+  rows: 10,
+  button: 20,
+  title: 24,
+  description: 72,
+};
+
+function checkListMessage(
+  button: string,
+  sections: Array<{
+    title?: string;
+    rows: Array<{ id: string; title: string; description?: string }>;
+  }>,
+): string | null {
+  const label = button?.trim() ?? "";
+  if (!label || label.length > LIST_LIMITS.button) {
+    return `List button label must be 1-${LIST_LIMITS.button} characters`;
+  }
+
+  const rows = sections.flatMap((section) => section.rows);
+  if (!rows.length || rows.length > LIST_LIMITS.rows) {
+    return `List messages need 1-${LIST_LIMITS.rows} rows in total`;
+  }
+  if (sections.length > 1 && sections.some((section) => !section.title)) {
+    return "Every section needs a title when a list has several sections";
+  }
+  if (
+    sections.some((section) => (section.title?.length ?? 0) > LIST_LIMITS.title)
+  ) {
+    return `Section titles are limited to ${LIST_LIMITS.title} characters`;
+  }
+
+  const ids = new Set<string>();
+  for (const row of rows) {
+    if (!row.id || ids.has(row.id)) {
+      return `List row ids must be unique and non-empty ("${row.id}")`;
+    }
+    ids.add(row.id);
+    if (!row.title?.trim() || row.title.length > LIST_LIMITS.title) {
+      return `List row titles must be 1-${LIST_LIMITS.title} characters ("${row.title}")`;
+    }
+    if ((row.description?.length ?? 0) > LIST_LIMITS.description) {
+      return `List row descriptions are limited to ${LIST_LIMITS.description} characters`;
+    }
+  }
+
+  return null;
+}
+
+const isBlankString = (value: unknown) =>
+  typeof value !== "string" || !value.trim();
+
+const checkTemplateMedia = (
+  media: TemplateMediaObject | undefined,
+): string | null => {
+  if (isBlankString(media?.id) && isBlankString(media?.link)) {
+    return "media needs an id or a link";
+  }
+  if (!isBlankString(media?.link)) {
+    try {
+      new URL(media!.link!);
+    } catch {
+      return `"${media!.link}" is not a valid URL`;
+    }
+  }
+  return null;
+};
+
+/**
+ * Validates a template parameter against Meta's rules for its type and
+ * returns it trimmed, or a description of what is wrong.
+ */
+function checkTemplateParameter(
+  parameter: TemplateComponentParameter,
+): TemplateComponentParameter | string {
+  switch (parameter.type) {
+    case "text":
+      return typeof parameter.text === "string"
+        ? { type: "text", text: parameter.text }
+        : "text is required";
+    case "currency": {
+      const currency = parameter.currency;
+      if (!/^[A-Za-z]{3}$/.test(currency?.code?.trim() ?? "")) {
+        return "currency code must be an ISO 4217 code";
+      }
+      if (!Number.isInteger(currency.amount_1000)) {
+        return "currency amount_1000 must be an integer";
+      }
+      if (isBlankString(currency.fallback_value)) {
+        return "currency fallback_value is required";
+      }
+      return {
+        type: "currency",
+        currency: {
+          fallback_value: currency.fallback_value.trim(),
+          code: currency.code.trim().toUpperCase(),
+          amount_1000: currency.amount_1000,
+        },
+      };
+    }
+    case "date_time":
+      return isBlankString(parameter.date_time?.fallback_value)
+        ? "date_time fallback_value is required"
+        : {
+            type: "date_time",
+            date_time: {
+              fallback_value: parameter.date_time.fallback_value.trim(),
+            },
+          };
+    case "image":
+      return checkTemplateMedia(parameter.image) ?? parameter;
+    case "video":
+      return checkTemplateMedia(parameter.video) ?? parameter;
+    case "document":
+      return checkTemplateMedia(parameter.document) ?? parameter;
+    case "location": {
+      const { latitude, longitude } = parameter.location ?? {};
+      if (
+        !Number.isFinite(latitude) ||
+        !Number.isFinite(longitude) ||
+        Math.abs(latitude) > 90 ||
+        Math.abs(longitude) > 180
+      ) {
+        return "location needs a valid latitude and longitude";
+      }
+      return parameter;
+    }
+    case "payload":
+      return isBlankString(parameter.payload)
+        ? "payload is required"
+        : { type: "payload", payload: parameter.payload.trim() };
+    case "coupon_code":
+      return isBlankString(parameter.coupon_code)
+        ? "coupon_code is required"
+        : { type: "coupon_code", coupon_code: parameter.coupon_code.trim() };
+    case "action":
+      return isBlankString(parameter.action?.flow_token)
+        ? "action flow_token is required"
+        : parameter;
+    default:
+      return `unsupported parameter type "${(parameter as { type?: unknown }).type}"`;
+  }
+}
+
+const extractMetaErrorCode = (details: unknown): number | null => {
+  const code = (details as { error?: GraphError | null } | undefined)?.error
+    ?.code;
+  return typeof code === "number" ? code : null;
+};
+
+/**
+ * Sends a message and records it as an `OutboundMessage`, so webhook
+ * statuses for it can be tracked regardless of who sent it. Free-form
+ * messages outside the customer service window are refused with 131047.
+ */
 export async function sendMessage(
   userId: string,
   to: string,
   message: SendMessagePayload,
   options: SendMessageOptions = {},
+): Promise<SendMessageResult> {
+  // Read receipts are status updates, not messages: nothing to record
+  if (message.type === "read") {
+    return markMessageRead(userId, message.messageId, message.typing);
+  }
+
+  const result = await sendWithinServiceWindow(userId, to, message, options);
+
+  await recordOutboundMessage({
+    userId,
+    to: normalizePhone(to) || to,
+    type: message.type,
+    payload: message,
+    tracking: options.tracking,
+    waMessageId: result.success ? (result.messageId ?? null) : null,
+    error: result.success ? null : (result.error ?? null),
+    errorCode: result.success ? null : extractMetaErrorCode(result.details),
+  });
+
+  return result;
+}
+
+/**
+ * Marks an inbound message (and the ones before it) as read. With `typing`,
+ * the customer sees "typing…" until our next message or for 25 seconds.
+ */
+async function markMessageRead(
+  userId: string,
+  messageId: string,
+  typing = false,
+): Promise<SendMessageResult> {
+  if (!messageId?.trim()) {
+    return { success: false, status: 400, error: "Missing message id" };
+  }
+
+  const { accessToken, phoneNumberId } = await getGraphCredentials(userId);
+  if (!accessToken || !phoneNumberId) {
+    return { success: false, error: "Missing Meta API credentials" };
+  }
+
+  try {
+    const response = await graphRequest({
+      method: "POST",
+      path: `${phoneNumberId}/messages`,
+      accessToken,
+      body: {
+        messaging_product: "whatsapp",
+        status: "read",
+        message_id: messageId.trim(),
+        ...(typing ? { typing_indicator: { type: "text" } } : {}),
+      },
+      // Marcar como leído dos veces no tiene efecto
+      retry: { idempotent: true },
+      label: `Marking message ${messageId} as read`,
+    });
+
+    if (!response.ok) {
+      return {
+        success: false,
+        status: response.status,
+        error: response.error?.message ?? "Failed to mark message as read",
+        details: {
+          response: response.json,
+          error: response.error,
+          attempts: response.attempts,
+        },
+      };
+    }
+
+    return { success: true, details: { attempts: response.attempts } };
+  } catch (error) {
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Unknown error while marking message as read",
+      details:
+        error instanceof GraphRequestError
+          ? { attempts: error.attempts }
+          : undefined,
+    };
+  }
+}
+
+async function sendWithinServiceWindow(
+  userId: string,
+  to: string,
+  message: SendMessagePayload,
+  options: SendMessageOptions,
+): Promise<SendMessageResult> {
+  if (message.type !== "template") {
+    const check = await checkServiceWindow(userId, {
+      phone: normalizePhone(to) || to,
+      contactId: options.tracking?.contactId,
+    });
+    if (!check.allowed) {
+      console.warn(
+        `Refusing ${message.type} message to ${to}: ${check.error.message}`,
+      );
+      return {
+        success: false,
+        status: 400,
+        error: check.error.message,
+        details: { error: check.error, serviceWindow: check.serviceWindow },
+      };
+    }
+  }
+
+  return deliverMessage(userId, to, message, options);
+}
+
+async function deliverMessage(
+  userId: string,
+  to: string,
+  message: SendMessagePayload,
+  options: SendMessageOptions = {},
 ): Promise<SendMessageResult> {
   const { allowListAttempted = false } = options;
   const normalizedTo = normalizePhone(to);
@@ -1453,13 +2467,7 @@ export async function sendMessage(
     return { success: false, status: 400, error: errorMessage };
   }
 
-  const user = await prisma.user.findUnique({
-    where: { id: userId },
-    select: { metaAccessToken: true, metaPhoneNumberId: true },
-  });
-
-  const accessToken = user?.metaAccessToken?.trim() ?? null;
-  const phoneNumberId = user?.metaPhoneNumberId?.trim() ?? null;
+  const { accessToken, phoneNumberId } = await getGraphCredentials(userId);
 
   if (!accessToken || !phoneNumberId) {
     const errorMessage = "Missing Meta API credentials";
@@ -1467,12 +2475,6 @@ export async function sendMessage(
     return { success: false, error: errorMessage };
   }
 
-  const url = `https://graph.facebook.com/${GRAPH_VERSION}/${phoneNumberId}/messages`;
-  const headers = {
-    Authorization: `Bearer ${accessToken}`,
-    "Content-Type": "application/json",
-  };
-
   // Construcción del cuerpo según tipo
   let body: Record<string, unknown> | undefined;
   switch (message.type) {
@@ -1487,11 +2489,11 @@ export async function sendMessage(
       break;
 
     case "media": {
-      if (!message.id && !message.url) {
+      if (!message.id && !message.url && !message.assetId) {
         return {
           success: false,
           status: 400,
-          error: "Media message must have either an id or a url",
+          error: "Media message must have an id, a url or a library asset",
         };
       }
 
@@ -1501,10 +2503,40 @@ export async function sendMessage(
         audio: true,
         document: true,
       };
-      const mType = allowed[message.mediaType] ? message.mediaType : "image";
-
-      const mediaObject: { id?: string; link?: string; caption?: string } = {};
-      if (message.id) {
+      let mType = allowed[message.mediaType] ? message.mediaType : "image";
+
+      const mediaObject: {
+        id?: string;
+        link?: string;
+        caption?: string;
+        filename?: string;
+      } = {};
+      if (message.assetId) {
+        try {
+          const resolved = await resolveSendableMedia(userId, message.assetId);
+          mediaObject.id = resolved.mediaId;
+          // El tipo guardado en la biblioteca manda sobre el del nodo
+          if (allowed[resolved.mediaType]) {
+            mType = resolved.mediaType as typeof mType;
+          }
+          if (mType === "document" && resolved.filename) {
+            mediaObject.filename = resolved.filename;
+          }
+        } catch (error) {
+          console.error(
+            `Failed to prepare media ${message.assetId} for sending:`,
+            error,
+          );
+          return {
+            success: false,
+            status: error instanceof MediaError ? (error.status ?? 500) : 500,
+            error:
+              error instanceof Error
+                ? error.message
+                : "Failed to prepare media for sending",
+          };
+        }
+      } else if (message.id) {
         mediaObject.id = message.id;
       } else if (message.url) {
         mediaObject.link = message.url;
@@ -1526,13 +2558,21 @@ export async function sendMessage(
 
     case "list": {
       const sections = (message.sections || []).map((section) => ({
-        title: section.title,
+        ...(section.title?.trim() ? { title: section.title.trim() } : {}),
         rows: (section.rows || []).map((row) => ({
           id: row.id,
           title: row.title,
+          ...(row.description?.trim()
+            ? { description: row.description.trim() }
+            : {}),
         })),
       }));
 
+      const listError = checkListMessage(message.button, sections);
+      if (listError) {
+        return { success: false, status: 400, error: listError };
+      }
+
       body = {
         messaging_product: "whatsapp",
         recipient_type: "individual",
@@ -1551,8 +2591,15 @@ export async function sendMessage(
     }
 
     case "options": {
-      // WhatsApp limita a 3 botones. Recortamos si es necesario.
-      const opts = (message.options || []).slice(0, 3);
+      // WhatsApp limita a 3 botones; los menús más largos van como lista
+      const opts = message.options || [];
+      if (opts.length > WA_MAX_REPLY_BUTTONS) {
+        return {
+          success: false,
+          status: 400,
+          error: `Button messages support at most ${WA_MAX_REPLY_BUTTONS} options; send a list message instead`,
+        };
+      }
       body = {
         messaging_product: "whatsapp",
         recipient_type: "individual",
@@ -1643,6 +2690,7 @@ export async function sendMessage(
         ? template.components
         : [];
 
+      let invalidParameter: string | null = null;
       const normalizedComponents = components
         .map((component) => {
           const type = (component?.type ?? "").toString().trim().toLowerCase();
@@ -1662,19 +2710,16 @@ export async function sendMessage(
             normalized.index = component.index;
           }
 
-          const parameters = Array.isArray(component?.parameters)
-            ? component.parameters
-                .map((parameter) => {
-                  if (!parameter || parameter.type !== "text") return null;
-                  const textValue =
-                    typeof parameter.text === "string" ? parameter.text : "";
-                  return { type: "text", text: textValue };
-                })
-                .filter(
-                  (entry): entry is { type: "text"; text: string } =>
-                    entry !== null,
-                )
-            : [];
+          const parameters: TemplateComponentParameter[] = [];
+          for (const parameter of component?.parameters ?? []) {
+            if (!parameter) continue;
+            const checked = checkTemplateParameter(parameter);
+            if (typeof checked === "string") {
+              invalidParameter ??= `Invalid ${type} template parameter: ${checked}`;
+              continue;
+            }
+            parameters.push(checked);
+          }
 
           if (parameters.length) {
             normalized.parameters = parameters;
@@ -1687,6 +2732,10 @@ export async function sendMessage(
             component !== null,
         );
 
+      if (invalidParameter) {
+        return { success: false, status: 400, error: invalidParameter };
+      }
+
       const templatePayload: Record<string, unknown> = {
         name: templateName,
         language: { code: templateLanguage },
@@ -1707,124 +2756,113 @@ export async function sendMessage(
     }
   }
 
-  // Llamada con timeout/abort
-  const ctrl = new AbortController();
-  const t = setTimeout(() => ctrl.abort(), META_API_TIMEOUT_MS);
+  if (body && options.replyTo?.trim()) {
+    body.context = { message_id: options.replyTo.trim() };
+  }
+
+  // El dispatcher limita el ritmo por número/destinatario; /messages no es
+  // idempotente, así que sólo se reenvía si Meta no recibió el pedido.
+  let response: GraphResponse<GraphSendResponse>;
   try {
-    const res = await fetch(url, {
+    response = await graphRequest<GraphSendResponse>({
       method: "POST",
-      headers,
-      body: JSON.stringify(body ?? {}),
-      signal: ctrl.signal,
+      path: `${phoneNumberId}/messages`,
+      accessToken,
+      body: body ?? {},
+      retry: { idempotent: false },
+      dispatch: (send) => dispatchOutbound(phoneNumberId, normalizedTo, send),
+      onError: (error) => {
+        if (error.code === GraphErrorCode.PairRateLimit) {
+          notePairRateLimited(phoneNumberId, normalizedTo);
+        }
+      },
+      label: `Sending ${message.type} message to ${normalizedTo}`,
     });
+  } catch (error) {
+    if (error instanceof OutboundBackpressureError) {
+      console.warn("Error sending message:", error.message);
+      return { success: false, status: error.status, error: error.message };
+    }
+    if (error instanceof GraphRequestError) {
+      return {
+        success: false,
+        error: error.message,
+        details: { attempts: error.attempts },
+      };
+    }
+    console.error("Error sending message:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Unknown error while sending message",
+    };
+  }
 
-    const raw = await res.text().catch(() => "");
-    let json: unknown;
+  const attempts = response.attempts;
 
-    if (raw) {
-      try {
-        json = JSON.parse(raw);
-      } catch {
-        json = undefined;
-      }
-    }
+  if (!response.ok) {
+    const graphError = response.error;
+    const errorMessage =
+      graphError?.userMessage ??
+      graphError?.message ??
+      "Meta API request failed";
 
-    if (!res.ok) {
-      const errorPayload = json as MetaErrorPayload | undefined;
-      const graphMessage =
-        errorPayload?.error?.error_user_msg ?? errorPayload?.error?.message;
-      const fallback = raw || res.statusText || "Meta API request failed";
-      const errorMessage = graphMessage?.trim().length
-        ? graphMessage
-        : fallback;
-
-      const lowerMessage = errorMessage?.toLowerCase() ?? "";
-      const isAccessTokenError =
-        res.status === 401 ||
-        ((res.status === 400 || res.status === 403) &&
-          (lowerMessage.includes("access token") ||
-            lowerMessage.includes("session has expired")));
-
-      const normalizedError = isAccessTokenError
+    const normalizedError =
+      graphError && isAccessTokenError(graphError, response.status)
         ? "Meta access token expired. Please reconnect WhatsApp in Settings."
         : errorMessage;
 
-      const errorCode =
-        typeof errorPayload?.error?.code === "number"
-          ? errorPayload.error.code
-          : null;
-
-      if (
-        res.status === 400 &&
-        errorCode === RECIPIENT_NOT_ALLOWED_ERROR_CODE &&
-        !allowListAttempted
-      ) {
-        console.warn(
-          "Recipient phone number not in WhatsApp allow list. Attempting automatic registration.",
-          normalizedTo,
-        );
-
-        const allowListResult = await addRecipientToAllowList(
-          accessToken,
-          phoneNumberId,
-          normalizedTo,
-        );
-
-        if (allowListResult.success) {
-          return sendMessage(userId, normalizedTo, message, {
-            ...options,
-            allowListAttempted: true,
-          });
-        }
+    if (
+      response.status === 400 &&
+      graphError?.code === GraphErrorCode.RecipientNotAllowed &&
+      !allowListAttempted
+    ) {
+      console.warn(
+        "Recipient phone number not in WhatsApp allow list. Attempting automatic registration.",
+        normalizedTo,
+      );
 
-        const registrationError =
-          allowListResult.error ??
-          "Meta rejected the number because it is not in the WhatsApp test allow list. Please add it manually from the Meta Developer Dashboard.";
+      const allowListResult = await addRecipientToAllowList(
+        accessToken,
+        phoneNumberId,
+        normalizedTo,
+      );
 
-        return {
-          success: false,
-          status: allowListResult.status ?? res.status,
-          error: registrationError,
-          details: {
-            originalError: errorPayload,
-            allowListAttempt: allowListResult.details ?? null,
-          },
-        };
+      if (allowListResult.success) {
+        return deliverMessage(userId, normalizedTo, message, {
+          ...options,
+          allowListAttempted: true,
+        });
       }
 
-      console.error("Error sending message:", res.status, errorMessage);
+      const registrationError =
+        allowListResult.error ??
+        "Meta rejected the number because it is not in the WhatsApp test allow list. Please add it manually from the Meta Developer Dashboard.";
+
       return {
         success: false,
-        status: res.status,
-        error: normalizedError,
-        details: json,
+        status: allowListResult.status ?? response.status,
+        error: registrationError,
+        details: {
+          response: response.json,
+          allowListAttempt: allowListResult.details ?? null,
+          attempts,
+        },
       };
     }
 
-    const response = json as
-      | {
-          messages?: Array<{ id?: string }>;
-          contacts?: Array<{ wa_id?: string }>;
-        }
-      | undefined;
-    const messageId =
-      response?.messages?.find((m) => typeof m?.id === "string")?.id ?? null;
-
-    return { success: true, messageId };
-  } catch (error) {
-    if (error instanceof Error && error.name === "AbortError") {
-      console.error("Error sending message: request timeout");
-      return { success: false, error: "Request to Meta timed out" };
-    }
-    console.error("Error sending message:", error);
     return {
       success: false,
-      error:
-        error instanceof Error
-          ? error.message
-          : "Unknown error while sending message",
+      status: response.status,
+      error: normalizedError,
+      details: { response: response.json, error: graphError, attempts },
     };
-  } finally {
-    clearTimeout(t);
   }
+
+  const messageId =
+    response.json?.messages?.find((m) => typeof m?.id === "string")?.id ?? null;
+
+  return { success: true, messageId, details: { attempts } };
 }
@@ -0,0 +1,261 @@
+/* Paces Graph `/messages` calls per sending phone number. Each number gets a
+ * token bucket (Meta's per-number throughput) and each recipient a minimum
+ * spacing between messages (the 131056 pair rate limit). Sends that cannot go
+ * out yet wait in a FIFO lane; callers await their slot, and once a lane is
+ * full new sends are refused instead of queueing without bound. */
+
+export class OutboundBackpressureError extends Error {
+  status = 429;
+
+  constructor(phoneNumberId: string, depth: number) {
+    super(
+      `Outbound queue for phone number ${phoneNumberId} is full (${depth} pending sends)`,
+    );
+    this.name = "OutboundBackpressureError";
+  }
+}
+
+type DispatcherConfig = {
+  ratePerSecond: number;
+  burst: number;
+  recipientSpacingMs: number;
+  pairLimitBackoffMs: number;
+  maxQueueDepth: number;
+};
+
+type QueuedSend = {
+  recipient: string;
+  enqueuedAt: number;
+  run: () => void;
+};
+
+type PhoneLaneStats = {
+  dispatched: number;
+  throttled: number;
+  rejected: number;
+  pairLimitHits: number;
+  maxWaitMs: number;
+};
+
+type PhoneLane = {
+  tokens: number;
+  refilledAt: number;
+  queue: QueuedSend[];
+  /** Earliest time each recipient may receive the next message. */
+  recipientReadyAt: Map<string, number>;
+  timer: ReturnType<typeof setTimeout> | null;
+  stats: PhoneLaneStats;
+};
+
+const parsePositiveNumber = (raw: string | undefined, fallback: number) => {
+  const parsed = Number(raw);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+const parseNonNegativeNumber = (raw: string | undefined, fallback: number) => {
+  const parsed = Number(raw);
+  return raw?.trim() && Number.isFinite(parsed) && parsed >= 0
+    ? parsed
+    : fallback;
+};
+
+const config: DispatcherConfig = {
+  // Meta's default throughput for a business phone number is 80 mps
+  ratePerSecond: parsePositiveNumber(process.env.OUTBOUND_RATE_PER_SECOND, 80),
+  burst: parsePositiveNumber(process.env.OUTBOUND_BURST, 80),
+  recipientSpacingMs: parseNonNegativeNumber(
+    process.env.OUTBOUND_RECIPIENT_SPACING_MS,
+    1000,
+  ),
+  pairLimitBackoffMs: parseNonNegativeNumber(
+    process.env.OUTBOUND_PAIR_LIMIT_BACKOFF_MS,
+    6000,
+  ),
+  maxQueueDepth: parsePositiveNumber(
+    process.env.OUTBOUND_MAX_QUEUE_DEPTH,
+    10_000,
+  ),
+};
+
+const RECIPIENT_PRUNE_THRESHOLD = 1000;
+
+const lanes = new Map<string, PhoneLane>();
+
+const getLane = (phoneNumberId: string): PhoneLane => {
+  let lane = lanes.get(phoneNumberId);
+  if (!lane) {
+    lane = {
+      tokens: config.burst,
+      refilledAt: Date.now(),
+      queue: [],
+      recipientReadyAt: new Map(),
+      timer: null,
+      stats: {
+        dispatched: 0,
+        throttled: 0,
+        rejected: 0,
+        pairLimitHits: 0,
+        maxWaitMs: 0,
+      },
+    };
+    lanes.set(phoneNumberId, lane);
+  }
+  return lane;
+};
+
+const refill = (lane: PhoneLane, now: number) => {
+  const elapsed = Math.max(0, now - lane.refilledAt);
+  lane.tokens = Math.min(
+    config.burst,
+    lane.tokens + (elapsed / 1000) * config.ratePerSecond,
+  );
+  lane.refilledAt = now;
+};
+
+const pruneRecipients = (lane: PhoneLane, now: number) => {
+  if (lane.recipientReadyAt.size < RECIPIENT_PRUNE_THRESHOLD) return;
+  for (const [recipient, readyAt] of lane.recipientReadyAt) {
+    if (readyAt <= now) lane.recipientReadyAt.delete(recipient);
+  }
+};
+
+function drain(phoneNumberId: string, lane: PhoneLane) {
+  if (lane.timer) {
+    clearTimeout(lane.timer);
+    lane.timer = null;
+  }
+
+  const now = Date.now();
+  refill(lane, now);
+
+  // Take the oldest send whose recipient is ready. Later sends to a blocked
+  // recipient are blocked too, so per-recipient order is preserved.
+  let index = 0;
+  while (index < lane.queue.length && lane.tokens >= 1) {
+    const item = lane.queue[index];
+    const readyAt = lane.recipientReadyAt.get(item.recipient) ?? 0;
+    if (readyAt > now) {
+      index++;
+      continue;
+    }
+
+    lane.queue.splice(index, 1);
+    lane.tokens -= 1;
+    lane.recipientReadyAt.set(item.recipient, now + config.recipientSpacingMs);
+    lane.stats.dispatched++;
+    lane.stats.maxWaitMs = Math.max(
+      lane.stats.maxWaitMs,
+      now - item.enqueuedAt,
+    );
+    item.run();
+  }
+
+  pruneRecipients(lane, now);
+
+  if (!lane.queue.length) {
+    return;
+  }
+
+  let wakeAt = Number.POSITIVE_INFINITY;
+  if (lane.tokens < 1) {
+    wakeAt = now + ((1 - lane.tokens) / config.ratePerSecond) * 1000;
+  } else {
+    for (const item of lane.queue) {
+      wakeAt = Math.min(
+        wakeAt,
+        lane.recipientReadyAt.get(item.recipient) ?? now,
+      );
+    }
+  }
+
+  lane.timer = setTimeout(
+    () => drain(phoneNumberId, lane),
+    Math.max(1, Math.ceil(wakeAt - now)),
+  );
+  lane.timer.unref?.();
+}
+
+/**
+ * Runs `task` once the phone number has throughput left and the recipient's
+ * spacing has elapsed. Rejects with `OutboundBackpressureError` when the
+ * number's queue is full.
+ */
+export function dispatchOutbound<T>(
+  phoneNumberId: string,
+  recipient: string,
+  task: () => Promise<T>,
+): Promise<T> {
+  const lane = getLane(phoneNumberId);
+
+  if (lane.queue.length >= config.maxQueueDepth) {
+    lane.stats.rejected++;
+    return Promise.reject(
+      new OutboundBackpressureError(phoneNumberId, lane.queue.length),
+    );
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const item: QueuedSend = {
+      recipient,
+      enqueuedAt: Date.now(),
+      run: () => {
+        Promise.resolve().then(task).then(resolve, reject);
+      },
+    };
+    lane.queue.push(item);
+
+    drain(phoneNumberId, lane);
+
+    // Still queued after the drain: the send had to wait for capacity
+    if (lane.queue.includes(item)) {
+      lane.stats.throttled++;
+    }
+  });
+}
+
+/**
+ * Called when Meta answers 131056: holds further sends to the recipient for
+ * the configured back-off on top of the regular spacing.
+ */
+export function notePairRateLimited(phoneNumberId: string, recipient: string) {
+  const lane = getLane(phoneNumberId);
+  lane.stats.pairLimitHits++;
+  const current = lane.recipientReadyAt.get(recipient) ?? 0;
+  lane.recipientReadyAt.set(
+    recipient,
+    Math.max(current, Date.now() + config.pairLimitBackoffMs),
+  );
+}
+
+export function getOutboundDispatcherMetrics() {
+  const phoneNumbers: Record<string, PhoneLaneStats & { queueDepth: number }> =
+    {};
+  const totals = {
+    queueDepth: 0,
+    dispatched: 0,
+    throttled: 0,
+    rejected: 0,
+    pairLimitHits: 0,
+  };
+
+  for (const [phoneNumberId, lane] of lanes) {
+    phoneNumbers[phoneNumberId] = {
+      queueDepth: lane.queue.length,
+      ...lane.stats,
+    };
+    totals.queueDepth += lane.queue.length;
+    totals.dispatched += lane.stats.dispatched;
+    totals.throttled += lane.stats.throttled;
+    totals.rejected += lane.stats.rejected;
+    totals.pairLimitHits += lane.stats.pairLimitHits;
+  }
+
+  return {
+    ratePerSecond: config.ratePerSecond,
+    burst: config.burst,
+    recipientSpacingMs: config.recipientSpacingMs,
+    maxQueueDepth: config.maxQueueDepth,
+    ...totals,
+    phoneNumbers,
+  };
+}
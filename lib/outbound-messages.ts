@@ -0,0 +1,275 @@
+import type {
+  OutboundMessage,
+  OutboundMessageStatus,
+  Prisma,
+} from "@prisma/client";
+
+import prisma from "./prisma";
+
+const isPrismaError = (value: unknown, code: string) =>
+  typeof value === "object" &&
+  value !== null &&
+  "code" in value &&
+  (value as { code?: unknown }).code === code;
+
+/** Where a send originated. */
+export const outboundMessageSources = [
+  "Flow",
+  "Manual",
+  "Agent",
+  "Api",
+] as const;
+
+export type OutboundMessageSource = (typeof outboundMessageSources)[number];
+
+export type OutboundTracking = {
+  source?: OutboundMessageSource;
+  sessionId?: string | null;
+  contactId?: string | null;
+};
+
+export type OutboundStatusEntry = {
+  status: string;
+  error: string | null;
+  errorCode: number | null;
+  occurredAt: string;
+};
+
+export type OutboundMessageResource = {
+  id: string;
+  userId: string;
+  contactId: string | null;
+  sessionId: string | null;
+  source: string;
+  waMessageId: string | null;
+  to: string;
+  type: string;
+  payload: unknown;
+  status: string;
+  error: string | null;
+  errorCode: number | null;
+  conversationId: string | null;
+  sentAt: string | null;
+  deliveredAt: string | null;
+  readAt: string | null;
+  failedAt: string | null;
+  createdAt: string;
+  timeline: OutboundStatusEntry[];
+};
+
+export type OutboundStatusUpdate = {
+  waMessageId: string;
+  /** Normalized status (`Sent`, `Delivered`, `Read`, `Failed`, ...). */
+  status: string;
+  occurredAt: Date;
+  error?: string | null;
+  errorCode?: number | null;
+  conversationId?: string | null;
+  raw?: unknown;
+};
+
+// Meta does not guarantee webhook order: a late `delivered` must not
+// overwrite `read`. Failures win over anything short of delivery.
+const STATUS_RANK: Record<string, number> = {
+  Pending: 0,
+  Sent: 1,
+  Failed: 2,
+  Delivered: 3,
+  Read: 4,
+};
+
+const STATUS_TIMESTAMP_FIELD: Record<string, keyof OutboundMessage> = {
+  Sent: "sentAt",
+  Delivered: "deliveredAt",
+  Read: "readAt",
+  Failed: "failedAt",
+};
+
+const toIso = (value: Date | string | null | undefined): string | null => {
+  if (!value) return null;
+  const date = value instanceof Date ? value : new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+const toStatusEntry = (entry: OutboundMessageStatus): OutboundStatusEntry => ({
+  status: entry.status,
+  error: entry.error ?? null,
+  errorCode: entry.errorCode ?? null,
+  occurredAt: toIso(entry.occurredAt) ?? new Date().toISOString(),
+});
+
+export const toOutboundMessageResource = (
+  message: OutboundMessage & { statuses?: OutboundMessageStatus[] },
+): OutboundMessageResource => ({
+  id: message.id,
+  userId: message.userId,
+  contactId: message.contactId ?? null,
+  sessionId: message.sessionId ?? null,
+  source: message.source,
+  waMessageId: message.waMessageId ?? null,
+  to: message.to,
+  type: message.type,
+  payload: message.payload,
+  status: message.status,
+  error: message.error ?? null,
+  errorCode: message.errorCode ?? null,
+  conversationId: message.conversationId ?? null,
+  sentAt: toIso(message.sentAt),
+  deliveredAt: toIso(message.deliveredAt),
+  readAt: toIso(message.readAt),
+  failedAt: toIso(message.failedAt),
+  createdAt: toIso(message.createdAt) ?? new Date().toISOString(),
+  timeline: (message.statuses ?? []).map(toStatusEntry),
+});
+
+async function resolveContactId(userId: string, phone: string) {
+  const contact = await prisma.contact.findFirst({
+    where: { userId, phone },
+    select: { id: true },
+  });
+  return contact?.id ?? null;
+}
+
+/**
+ * Persists the result of a send attempt. Accepted sends start as `Pending`
+ * until Meta's `sent` status arrives; rejected ones are stored as `Failed`
+ * so they still show up in the timeline. Never throws.
+ */
+export async function recordOutboundMessage(input: {
+  userId: string;
+  to: string;
+  type: string;
+  payload: unknown;
+  tracking?: OutboundTracking;
+  waMessageId?: string | null;
+  error?: string | null;
+  errorCode?: number | null;
+}): Promise<OutboundMessage | null> {
+  const now = new Date();
+  const failed = !input.waMessageId;
+
+  try {
+    const contactId =
+      input.tracking?.contactId ??
+      (await resolveContactId(input.userId, input.to));
+
+    return await prisma.outboundMessage.create({
+      data: {
+        userId: input.userId,
+        contactId,
+        sessionId: input.tracking?.sessionId ?? null,
+        source: input.tracking?.source ?? "Api",
+        waMessageId: input.waMessageId ?? null,
+        to: input.to,
+        type: input.type,
+        payload: input.payload as Prisma.InputJsonValue,
+        status: failed ? "Failed" : "Pending",
+        error: failed ? (input.error ?? "Send failed") : null,
+        errorCode: failed ? (input.errorCode ?? null) : null,
+        failedAt: failed ? now : null,
+        statuses: {
+          create: {
+            status: failed ? "Failed" : "Pending",
+            error: failed ? (input.error ?? "Send failed") : null,
+            errorCode: failed ? (input.errorCode ?? null) : null,
+            occurredAt: now,
+          },
+        },
+      },
+    });
+  } catch (error) {
+    console.error(
+      `Failed to record outbound ${input.type} message to ${input.to}:`,
+      error,
+    );
+    return null;
+  }
+}
+
+/**
+ * Appends a webhook status to the message's timeline and advances its
+ * current status. Returns `false` when the id is not one of ours.
+ */
+export async function applyOutboundStatusUpdate(
+  userId: string,
+  update: OutboundStatusUpdate,
+): Promise<boolean> {
+  const message = (await prisma.outboundMessage.findFirst({
+    where: { userId, waMessageId: update.waMessageId },
+  })) as OutboundMessage | null;
+
+  if (!message) {
+    return false;
+  }
+
+  try {
+    await prisma.outboundMessageStatus.create({
+      data: {
+        outboundMessageId: message.id,
+        status: update.status,
+        error: update.error ?? null,
+        errorCode: update.errorCode ?? null,
+        payload: (update.raw ?? undefined) as Prisma.InputJsonValue | undefined,
+        occurredAt: update.occurredAt,
+      },
+    });
+  } catch (error) {
+    // Redelivered (or retried) status: the timeline already has it, and the
+    // updates below are idempotent
+    if (!isPrismaError(error, "P2002")) throw error;
+  }
+
+  const data: Record<string, unknown> = {};
+  const timestampField = STATUS_TIMESTAMP_FIELD[update.status];
+  if (timestampField && !message[timestampField]) {
+    data[timestampField] = update.occurredAt;
+  }
+
+  const currentRank = STATUS_RANK[message.status] ?? 0;
+  const nextRank = STATUS_RANK[update.status];
+  if (nextRank !== undefined && nextRank > currentRank) {
+    data.status = update.status;
+    if (update.status === "Failed") {
+      data.error = update.error ?? "Meta reported delivery failure";
+      data.errorCode = update.errorCode ?? null;
+    }
+  }
+
+  if (update.conversationId && !message.conversationId) {
+    data.conversationId = update.conversationId;
+  }
+
+  if (Object.keys(data).length) {
+    await prisma.outboundMessage.update({
+      where: { id: message.id },
+      data,
+    });
+  }
+
+  return true;
+}
+
+export async function listOutboundMessages(
+  userId: string,
+  filters: {
+    sessionId?: string | null;
+    contactId?: string | null;
+    status?: string | null;
+    limit?: number;
+  } = {},
+): Promise<OutboundMessageResource[]> {
+  const where: Record<string, unknown> = { userId };
+  if (filters.sessionId) where.sessionId = filters.sessionId;
+  if (filters.contactId) where.contactId = filters.contactId;
+  if (filters.status) where.status = filters.status;
+
+  const limit = Math.min(Math.max(filters.limit ?? 50, 1), 200);
+  const messages = (await prisma.outboundMessage.findMany({
+    where,
+    orderBy: { createdAt: "desc" },
+    take: limit,
+    include: { statuses: { orderBy: { occurredAt: "asc" } } },
+  })) as Array<OutboundMessage & { statuses: OutboundMessageStatus[] }>;
+
+  return messages.map(toOutboundMessageResource);
+}
@@ -0,0 +1,159 @@
+import type { Contact } from "@prisma/client";
+
+import prisma from "./prisma";
+import { GraphErrorCode, type GraphError } from "./graph-client";
+
+/* WhatsApp's customer service window: free-form messages (text, media,
+ * interactive) are only delivered within 24 hours of the customer's last
+ * message. Outside it only approved templates go through, and Meta rejects
+ * anything else with 131047. We track the last inbound timestamp per contact
+ * so sends can be refused up front instead of failing after the fact.
+ * Contacts without a recorded inbound (including everyone who wrote before
+ * tracking started) are not checked locally; Meta still enforces the window
+ * for them. */
+
+export const SERVICE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Lets local setups (e.g. the Meta sandbox) send without a prior inbound
+const SERVICE_WINDOW_ENFORCED = process.env.SERVICE_WINDOW_ENFORCE !== "false";
+
+export type ServiceWindowState = {
+  /** `null` when no inbound message has been recorded for the contact. */
+  open: boolean | null;
+  lastInboundAt: string | null;
+  /** When the window closes (or closed); `null` when unknown. */
+  expiresAt: string | null;
+  remainingMs: number;
+};
+
+export type ContactResource = {
+  id: string;
+  userId: string;
+  phone: string;
+  name: string | null;
+  notes: string | null;
+  createdAt: string;
+  updatedAt: string;
+  serviceWindow: ServiceWindowState;
+};
+
+const toIso = (value: Date | string | null | undefined): string | null => {
+  if (!value) return null;
+  const date = value instanceof Date ? value : new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+export const getServiceWindowState = (
+  lastInboundAt: Date | string | null | undefined,
+  now = Date.now(),
+): ServiceWindowState => {
+  const last = toIso(lastInboundAt);
+  if (!last) {
+    return { open: null, lastInboundAt: null, expiresAt: null, remainingMs: 0 };
+  }
+
+  const expiresAt = Date.parse(last) + SERVICE_WINDOW_MS;
+  return {
+    open: expiresAt > now,
+    lastInboundAt: last,
+    expiresAt: new Date(expiresAt).toISOString(),
+    remainingMs: Math.max(0, expiresAt - now),
+  };
+};
+
+export const toContactResource = (contact: Contact): ContactResource => ({
+  id: contact.id,
+  userId: contact.userId,
+  phone: contact.phone,
+  name: contact.name ?? null,
+  notes: contact.notes ?? null,
+  createdAt: toIso(contact.createdAt) ?? new Date().toISOString(),
+  updatedAt: toIso(contact.updatedAt) ?? new Date().toISOString(),
+  serviceWindow: getServiceWindowState(contact.lastInboundAt),
+});
+
+export async function getContactResource(
+  userId: string,
+  contactId: string,
+): Promise<ContactResource | null> {
+  const contact = (await prisma.contact.findFirst({
+    where: { id: contactId, userId },
+  })) as Contact | null;
+  return contact ? toContactResource(contact) : null;
+}
+
+/**
+ * Moves the contact's `lastInboundAt` forward. Webhooks can arrive out of
+ * order, so an older message never rewinds the window.
+ */
+export async function recordContactInbound(contactId: string, at: Date) {
+  try {
+    await prisma.contact.updateMany({
+      where: {
+        id: contactId,
+        OR: [{ lastInboundAt: null }, { lastInboundAt: { lt: at } }],
+      },
+      data: { lastInboundAt: at },
+    });
+  } catch (error) {
+    console.error(
+      `Failed to record inbound timestamp for contact ${contactId}:`,
+      error,
+    );
+  }
+}
+
+export type ServiceWindowCheck =
+  | { allowed: true }
+  | { allowed: false; error: GraphError; serviceWindow: ServiceWindowState };
+
+/**
+ * Whether a free-form message may be sent to the recipient right now. Only a
+ * window known to be closed refuses the send; without a recorded inbound the
+ * decision is left to Meta.
+ */
+export async function checkServiceWindow(
+  userId: string,
+  recipient: { phone: string; contactId?: string | null },
+): Promise<ServiceWindowCheck> {
+  if (!SERVICE_WINDOW_ENFORCED) {
+    return { allowed: true };
+  }
+
+  const contact = (await prisma.contact.findFirst({
+    where: recipient.contactId
+      ? { id: recipient.contactId, userId }
+      : { userId, phone: recipient.phone },
+    select: { lastInboundAt: true },
+  })) as Pick<Contact, "lastInboundAt"> | null;
+
+  const serviceWindow = getServiceWindowState(contact?.lastInboundAt);
+  if (serviceWindow.open !== false) {
+    return { allowed: true };
+  }
+
+  const message = `Customer service window closed at ${serviceWindow.expiresAt}; only template messages can be sent until the customer writes again`;
+
+  return {
+    allowed: false,
+    serviceWindow,
+    error: {
+      message,
+      userMessage: null,
+      code: GraphErrorCode.ReEngagementWindowClosed,
+      subcode: null,
+      type: "ServiceWindowClosed",
+      isTransient: false,
+      traceId: null,
+    },
+  };
+}
+
+/** Recognizes a failed send caused by the closed window, local or from Meta. */
+export const isServiceWindowClosedFailure = (result: {
+  success: boolean;
+  details?: unknown;
+}) =>
+  !result.success &&
+  (result.details as { error?: GraphError | null } | undefined)?.error?.code ===
+    GraphErrorCode.ReEngagementWindowClosed;
@@ -0,0 +1,255 @@
+import type { Prisma, WebhookArchive } from "@prisma/client";
+
+import prisma from "./prisma";
+import {
+  processWebhookEvent,
+  type DryRunOutboundMessage,
+  type MetaWebhookPayload,
+} from "./meta";
+
+export const webhookArchiveOutcomes = [
+  "Received",
+  "Rejected",
+  "Processed",
+  "Failed",
+] as const;
+
+export type WebhookArchiveOutcome = (typeof webhookArchiveOutcomes)[number];
+
+export class WebhookReplayError extends Error {
+  status: number;
+
+  constructor(message: string, status = 409) {
+    super(message);
+    this.name = "WebhookReplayError";
+    this.status = status;
+  }
+}
+
+export type WebhookArchiveResource = {
+  id: string;
+  userId: string | null;
+  outcome: string;
+  error: string | null;
+  dryRun: boolean;
+  receivedAt: string;
+  processedAt: string | null;
+  replayOfId: string | null;
+  payload?: unknown;
+};
+
+export type WebhookReplayResult = {
+  archive: WebhookArchiveResource;
+  outbox: DryRunOutboundMessage[];
+};
+
+const DEFAULT_RETENTION_DAYS = 30;
+const CLEANUP_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+const parsePositiveNumber = (raw: string | undefined, fallback: number) => {
+  const parsed = Number(raw);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+export const WEBHOOK_ARCHIVE_RETENTION_MS =
+  parsePositiveNumber(
+    process.env.WEBHOOK_ARCHIVE_RETENTION_DAYS,
+    DEFAULT_RETENTION_DAYS,
+  ) *
+  24 *
+  60 *
+  60 *
+  1000;
+
+let cleanupTimer: ReturnType<typeof setInterval> | null = null;
+
+const toIso = (value: Date | string | null | undefined): string | null => {
+  if (!value) return null;
+  const date = value instanceof Date ? value : new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+export const toWebhookArchiveResource = (
+  archive: WebhookArchive,
+  options: { includePayload?: boolean } = {},
+): WebhookArchiveResource => ({
+  id: archive.id,
+  userId: archive.userId ?? null,
+  outcome: archive.outcome,
+  error: archive.error ?? null,
+  dryRun: archive.dryRun,
+  receivedAt: toIso(archive.receivedAt) ?? new Date().toISOString(),
+  processedAt: toIso(archive.processedAt),
+  replayOfId: archive.replayOfId ?? null,
+  ...(options.includePayload ? { payload: archive.payload } : {}),
+});
+
+export async function archiveWebhookPayload(
+  payload: MetaWebhookPayload,
+  options: {
+    userId?: string | null;
+    dryRun?: boolean;
+    replayOfId?: string | null;
+  } = {},
+): Promise<WebhookArchive> {
+  return prisma.webhookArchive.create({
+    data: {
+      payload: payload as Prisma.InputJsonValue,
+      userId: options.userId?.trim() || null,
+      dryRun: options.dryRun ?? false,
+      replayOfId: options.replayOfId ?? null,
+    },
+  });
+}
+
+export async function markWebhookArchiveOutcome(
+  archiveId: string,
+  outcome: WebhookArchiveOutcome,
+  error?: string | null,
+): Promise<void> {
+  try {
+    await prisma.webhookArchive.update({
+      where: { id: archiveId },
+      data: {
+        outcome,
+        error: error ?? null,
+        processedAt: outcome === "Received" ? null : new Date(),
+      },
+    });
+  } catch (updateError) {
+    console.error(
+      `Failed to record outcome ${outcome} for webhook archive ${archiveId}:`,
+      updateError,
+    );
+  }
+}
+
+export async function listWebhookArchive(
+  filters: {
+    userId?: string | null;
+    outcome?: string | null;
+    limit?: number;
+  } = {},
+): Promise<WebhookArchiveResource[]> {
+  const where: Record<string, unknown> = {};
+  if (filters.userId) where.userId = filters.userId;
+  if (filters.outcome) where.outcome = filters.outcome;
+
+  const limit = Math.min(Math.max(filters.limit ?? 50, 1), 200);
+  const archives = (await prisma.webhookArchive.findMany({
+    where,
+    orderBy: { receivedAt: "desc" },
+    take: limit,
+  })) as WebhookArchive[];
+
+  return archives.map((archive) => toWebhookArchiveResource(archive));
+}
+
+export async function getWebhookArchive(
+  archiveId: string,
+): Promise<WebhookArchiveResource | null> {
+  const archive = (await prisma.webhookArchive.findUnique({
+    where: { id: archiveId },
+  })) as WebhookArchive | null;
+  return archive
+    ? toWebhookArchiveResource(archive, { includePayload: true })
+    : null;
+}
+
+/**
+ * Re-runs a stored payload through `processWebhookEvent`, bypassing the
+ * inbound dedup ledger. The replay is archived as its own row linked to the
+ * original. With `dryRun` nothing is sent to Meta and nothing but the replay
+ * row is persisted; the would-be messages are returned in `outbox`. Payloads
+ * that failed signature verification can only be replayed dry.
+ */
+export async function replayWebhookArchive(
+  archiveId: string,
+  options: { dryRun?: boolean } = {},
+): Promise<WebhookReplayResult | null> {
+  const original = (await prisma.webhookArchive.findUnique({
+    where: { id: archiveId },
+  })) as WebhookArchive | null;
+
+  if (!original) {
+    return null;
+  }
+
+  const dryRun = options.dryRun ?? false;
+  if (!dryRun && original.outcome === "Rejected") {
+    throw new WebhookReplayError(
+      "Rejected webhook payloads were never verified and can only be replayed as a dry run",
+    );
+  }
+  const payload = original.payload as MetaWebhookPayload;
+  const replay = await archiveWebhookPayload(payload, {
+    userId: original.userId,
+    dryRun,
+    replayOfId: original.id,
+  });
+
+  const outbox: DryRunOutboundMessage[] = [];
+  try {
+    await processWebhookEvent(payload, {
+      userId: original.userId ?? null,
+      dryRun,
+      outbox,
+      skipDedup: true,
+    });
+    await markWebhookArchiveOutcome(replay.id, "Processed");
+  } catch (error) {
+    console.error(`Replay of webhook archive ${archiveId} failed:`, error);
+    await markWebhookArchiveOutcome(
+      replay.id,
+      "Failed",
+      error instanceof Error ? error.message : "Unknown replay error",
+    );
+  }
+
+  const stored = await getWebhookArchive(replay.id);
+  return {
+    archive: stored ?? toWebhookArchiveResource(replay),
+    outbox,
+  };
+}
+
+export async function purgeExpiredWebhookArchive(
+  now: Date = new Date(),
+): Promise<number> {
+  const result = await prisma.webhookArchive.deleteMany({
+    where: {
+      receivedAt: {
+        lt: new Date(now.getTime() - WEBHOOK_ARCHIVE_RETENTION_MS),
+      },
+    },
+  });
+  return typeof result?.count === "number" ? result.count : 0;
+}
+
+export function startWebhookArchiveCleanup(intervalMs = CLEANUP_INTERVAL_MS) {
+  if (cleanupTimer) {
+    return;
+  }
+
+  const run = async () => {
+    try {
+      const removed = await purgeExpiredWebhookArchive();
+      if (removed > 0) {
+        console.log(`Purged ${removed} archived webhook payloads.`);
+      }
+    } catch (error) {
+      console.error("Failed to purge archived webhook payloads:", error);
+    }
+  };
+
+  cleanupTimer = setInterval(run, intervalMs);
+  cleanupTimer.unref?.();
+  void run();
+}
+
+export function stopWebhookArchiveCleanup() {
+  if (cleanupTimer) {
+    clearInterval(cleanupTimer);
+    cleanupTimer = null;
+  }
+}
@@ -0,0 +1,353 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+import prisma from "./prisma";
+import {
+  collectWebhookTenantRefs,
+  type MetaWebhookPayload,
+  type WebhookTenantRefs,
+} from "./meta";
+
+export const WEBHOOK_SIGNATURE_HEADER = "x-hub-signature-256";
+
+const SIGNATURE_PREFIX = "sha256=";
+
+export type WebhookSignatureRejectionReason =
+  | "missing_raw_body"
+  | "missing_signature"
+  | "malformed_signature"
+  | "unknown_tenant"
+  | "missing_app_secret"
+  | "signature_mismatch";
+
+export type WebhookSignatureResult =
+  | { valid: true; userIds: string[] }
+  | {
+      valid: false;
+      reason: WebhookSignatureRejectionReason;
+      message: string;
+      phoneNumberIds: string[];
+      businessAccountIds: string[];
+      userIds: string[];
+    };
+
+export type WebhookRequestAudit = {
+  ip?: string | null;
+  userAgent?: string | null;
+};
+
+type VerifyWebhookSignatureOptions = {
+  rawBody: Buffer | null | undefined;
+  signature: string | null | undefined;
+  payload: MetaWebhookPayload;
+  /** Tenant resolved from the route; skips the phone number lookup. */
+  userId?: string | null;
+  audit?: WebhookRequestAudit;
+};
+
+export type WebhookSubscriptionResult =
+  | { valid: true; userId: string | null }
+  | { valid: false; status: 400 | 403 | 404; error: string };
+
+type VerifyWebhookSubscriptionOptions = {
+  mode: unknown;
+  token: unknown;
+  challenge: unknown;
+  /** Tenant resolved from the route. */
+  userId?: string | null;
+  /** Server-wide token accepted on the untenanted route. */
+  globalToken?: string | null;
+};
+
+type TenantSecret = {
+  id: string;
+  metaPhoneNumberId?: string | null;
+  metaBusinessAccountId?: string | null;
+  metaAppSecret?: string | null;
+};
+
+const safeEqual = (left: string, right: string): boolean => {
+  const a = Buffer.from(left);
+  const b = Buffer.from(right);
+  if (a.length !== b.length) {
+    return false;
+  }
+  return timingSafeEqual(a, b);
+};
+
+export const computeWebhookSignature = (
+  rawBody: Buffer,
+  appSecret: string,
+): string =>
+  SIGNATURE_PREFIX +
+  createHmac("sha256", appSecret).update(rawBody).digest("hex");
+
+/**
+ * Constant-time comparison of an `X-Hub-Signature-256` header value against
+ * the HMAC of the raw body computed with the given app secret.
+ */
+export const isValidWebhookSignature = (
+  rawBody: Buffer,
+  signature: string,
+  appSecret: string,
+): boolean => {
+  return safeEqual(
+    computeWebhookSignature(rawBody, appSecret),
+    signature.trim().toLowerCase(),
+  );
+};
+
+const logRejection = (
+  result: Extract<WebhookSignatureResult, { valid: false }>,
+  audit?: WebhookRequestAudit,
+) => {
+  console.warn("Rejected Meta webhook:", {
+    reason: result.reason,
+    message: result.message,
+    phoneNumberIds: result.phoneNumberIds,
+    businessAccountIds: result.businessAccountIds,
+    userIds: result.userIds,
+    ip: audit?.ip ?? null,
+    userAgent: audit?.userAgent ?? null,
+    rejectedAt: new Date().toISOString(),
+  });
+};
+
+const reject = (
+  reason: WebhookSignatureRejectionReason,
+  message: string,
+  refs: WebhookTenantRefs,
+  userIds: string[],
+  audit?: WebhookRequestAudit,
+): WebhookSignatureResult => {
+  const result = {
+    valid: false as const,
+    reason,
+    message,
+    phoneNumberIds: refs.phoneNumberIds,
+    businessAccountIds: refs.businessAccountIds,
+    userIds,
+  };
+  logRejection(result, audit);
+  return result;
+};
+
+/**
+ * Verifies the `hub.verify_token` of a Meta subscription handshake. On a
+ * tenant route only that tenant's `metaVerifyToken` is accepted; otherwise the
+ * server-wide token or any tenant's token is.
+ */
+export async function verifyWebhookSubscription({
+  mode,
+  token,
+  challenge,
+  userId,
+  globalToken,
+}: VerifyWebhookSubscriptionOptions): Promise<WebhookSubscriptionResult> {
+  if (mode !== "subscribe" || typeof challenge !== "string") {
+    return { valid: false, status: 400, error: "Invalid verification request" };
+  }
+
+  const providedToken = typeof token === "string" ? token.trim() : "";
+  if (!providedToken) {
+    return { valid: false, status: 403, error: "Missing verify token" };
+  }
+
+  const normalizedUserId = userId?.trim() ?? "";
+  if (normalizedUserId) {
+    const user = await prisma.user.findUnique({
+      where: { id: normalizedUserId },
+      select: { id: true, metaVerifyToken: true },
+    });
+
+    if (!user) {
+      return { valid: false, status: 404, error: "Tenant not found" };
+    }
+
+    const expected = user.metaVerifyToken?.trim() ?? "";
+    if (!expected || !safeEqual(expected, providedToken)) {
+      return { valid: false, status: 403, error: "Invalid verify token" };
+    }
+
+    return { valid: true, userId: user.id };
+  }
+
+  const normalizedGlobal = globalToken?.trim() ?? "";
+  if (normalizedGlobal && safeEqual(normalizedGlobal, providedToken)) {
+    return { valid: true, userId: null };
+  }
+
+  const owner = await prisma.user.findFirst({
+    where: { metaVerifyToken: providedToken },
+    select: { id: true },
+  });
+
+  if (!owner) {
+    return { valid: false, status: 403, error: "Invalid verify token" };
+  }
+
+  return { valid: true, userId: owner.id };
+}
+
+const tenantSecretSelect = {
+  id: true,
+  metaPhoneNumberId: true,
+  metaBusinessAccountId: true,
+  metaAppSecret: true,
+} as const;
+
+const loadTenantSecrets = async (
+  refs: WebhookTenantRefs,
+  userId: string,
+): Promise<TenantSecret[]> => {
+  if (userId) {
+    const tenant = (await prisma.user.findUnique({
+      where: { id: userId },
+      select: tenantSecretSelect,
+    })) as TenantSecret | null;
+    return tenant ? [tenant] : [];
+  }
+
+  return (await prisma.user.findMany({
+    where: {
+      OR: [
+        { metaPhoneNumberId: { in: refs.phoneNumberIds } },
+        { metaBusinessAccountId: { in: refs.businessAccountIds } },
+      ],
+    },
+    select: tenantSecretSelect,
+  })) as TenantSecret[];
+};
+
+const findUnownedRefs = (refs: WebhookTenantRefs, tenants: TenantSecret[]) => {
+  const owned = new Set<string>();
+  for (const tenant of tenants) {
+    const phoneNumberId = tenant.metaPhoneNumberId?.trim();
+    const businessAccountId = tenant.metaBusinessAccountId?.trim();
+    if (phoneNumberId) owned.add(`phone:${phoneNumberId}`);
+    if (businessAccountId) owned.add(`waba:${businessAccountId}`);
+  }
+  return [
+    ...refs.phoneNumberIds
+      .filter((id) => !owned.has(`phone:${id}`))
+      .map((id) => `phone number ${id}`),
+    ...refs.businessAccountIds
+      .filter((id) => !owned.has(`waba:${id}`))
+      .map((id) => `business account ${id}`),
+  ];
+};
+
+/**
+ * Verifies the `X-Hub-Signature-256` header of an inbound webhook. On a tenant
+ * route the path tenant's app secret is used; otherwise the payload must be
+ * signed with the app secret of every tenant owning one of its
+ * `phone_number_id`s or, for account-level fields, its WABA ids. Rejections
+ * are logged with the request audit data.
+ */
+export async function verifyWebhookSignature({
+  rawBody,
+  signature,
+  payload,
+  userId,
+  audit,
+}: VerifyWebhookSignatureOptions): Promise<WebhookSignatureResult> {
+  const refs = collectWebhookTenantRefs(payload);
+
+  if (!rawBody?.length) {
+    return reject(
+      "missing_raw_body",
+      "Webhook body could not be read for signature verification",
+      refs,
+      [],
+      audit,
+    );
+  }
+
+  const trimmedSignature = signature?.trim() ?? "";
+  if (!trimmedSignature) {
+    return reject(
+      "missing_signature",
+      "Missing X-Hub-Signature-256 header",
+      refs,
+      [],
+      audit,
+    );
+  }
+
+  if (!trimmedSignature.toLowerCase().startsWith(SIGNATURE_PREFIX)) {
+    return reject(
+      "malformed_signature",
+      "X-Hub-Signature-256 header must use the sha256= scheme",
+      refs,
+      [],
+      audit,
+    );
+  }
+
+  const normalizedUserId = userId?.trim() ?? "";
+
+  if (
+    !normalizedUserId &&
+    !refs.phoneNumberIds.length &&
+    !refs.businessAccountIds.length
+  ) {
+    return reject(
+      "unknown_tenant",
+      "Webhook payload does not reference any phone number or account",
+      refs,
+      [],
+      audit,
+    );
+  }
+
+  const tenants = await loadTenantSecrets(refs, normalizedUserId);
+  const userIds = Array.from(new Set(tenants.map((tenant) => tenant.id)));
+
+  if (normalizedUserId && !tenants.length) {
+    return reject(
+      "unknown_tenant",
+      `Tenant ${normalizedUserId} not found`,
+      refs,
+      [],
+      audit,
+    );
+  }
+
+  if (!normalizedUserId) {
+    const unknown = findUnownedRefs(refs, tenants);
+    if (unknown.length) {
+      return reject(
+        "unknown_tenant",
+        `No tenant owns ${unknown.join(", ")}`,
+        refs,
+        userIds,
+        audit,
+      );
+    }
+  }
+
+  for (const tenant of tenants) {
+    const appSecret = tenant.metaAppSecret?.trim() ?? "";
+
+    if (!appSecret) {
+      return reject(
+        "missing_app_secret",
+        `Tenant ${tenant.id} has no Meta app secret configured`,
+        refs,
+        userIds,
+        audit,
+      );
+    }
+
+    if (!isValidWebhookSignature(rawBody, trimmedSignature, appSecret)) {
+      return reject(
+        "signature_mismatch",
+        `Signature does not match the app secret of tenant ${tenant.id}`,
+        refs,
+        userIds,
+        audit,
+      );
+    }
+  }
+
+  return { valid: true, userIds };
+}
@@ -0,0 +1,389 @@
+import { randomUUID } from "node:crypto";
+import type { Prisma, WebhookJob } from "@prisma/client";
+
+import prisma from "./prisma";
+import { processWebhookEvent, type MetaWebhookPayload } from "./meta";
+import { markWebhookArchiveOutcome } from "./webhook-archive";
+
+export const webhookJobStatuses = [
+  "Pending",
+  "Processing",
+  "Completed",
+  "Dead",
+] as const;
+
+export type WebhookJobStatus = (typeof webhookJobStatuses)[number];
+
+export type WebhookJobResource = {
+  id: string;
+  status: string;
+  userId: string | null;
+  archiveId: string | null;
+  attempts: number;
+  maxAttempts: number;
+  availableAt: string;
+  lockedAt: string | null;
+  lockedBy: string | null;
+  lastError: string | null;
+  completedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+  payload?: unknown;
+};
+
+type WorkerConfig = {
+  concurrency: number;
+  pollIntervalMs: number;
+  visibilityTimeoutMs: number;
+  baseBackoffMs: number;
+  maxBackoffMs: number;
+  maxAttempts: number;
+};
+
+const parsePositiveInt = (raw: string | undefined, fallback: number) => {
+  const parsed = Number.parseInt(raw ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+const workerConfig: WorkerConfig = {
+  // Jobs for the same contact still serialize through the contact mailbox
+  concurrency: parsePositiveInt(process.env.WEBHOOK_WORKER_CONCURRENCY, 4),
+  pollIntervalMs: parsePositiveInt(process.env.WEBHOOK_WORKER_POLL_MS, 1000),
+  visibilityTimeoutMs: parsePositiveInt(
+    process.env.WEBHOOK_JOB_VISIBILITY_TIMEOUT_MS,
+    5 * 60 * 1000,
+  ),
+  baseBackoffMs: parsePositiveInt(process.env.WEBHOOK_JOB_BACKOFF_MS, 5000),
+  maxBackoffMs: parsePositiveInt(
+    process.env.WEBHOOK_JOB_MAX_BACKOFF_MS,
+    15 * 60 * 1000,
+  ),
+  maxAttempts: parsePositiveInt(process.env.WEBHOOK_JOB_MAX_ATTEMPTS, 5),
+};
+
+const workerId = `webhook-worker-${process.pid}-${randomUUID().slice(0, 8)}`;
+
+const pollTimers = new Set<ReturnType<typeof setTimeout>>();
+let running = false;
+
+const toIso = (value: Date | string | null | undefined): string | null => {
+  if (!value) return null;
+  const date = value instanceof Date ? value : new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+export const toWebhookJobResource = (
+  job: WebhookJob,
+  options: { includePayload?: boolean } = {},
+): WebhookJobResource => ({
+  id: job.id,
+  status: job.status,
+  userId: job.userId ?? null,
+  archiveId: job.archiveId ?? null,
+  attempts: job.attempts,
+  maxAttempts: job.maxAttempts,
+  availableAt: toIso(job.availableAt) ?? new Date().toISOString(),
+  lockedAt: toIso(job.lockedAt),
+  lockedBy: job.lockedBy ?? null,
+  lastError: job.lastError ?? null,
+  completedAt: toIso(job.completedAt),
+  createdAt: toIso(job.createdAt) ?? new Date().toISOString(),
+  updatedAt: toIso(job.updatedAt) ?? new Date().toISOString(),
+  ...(options.includePayload ? { payload: job.payload } : {}),
+});
+
+export async function enqueueWebhookJob(
+  payload: MetaWebhookPayload,
+  options: { userId?: string | null; archiveId?: string | null } = {},
+): Promise<WebhookJob> {
+  return prisma.webhookJob.create({
+    data: {
+      payload: payload as Prisma.InputJsonValue,
+      userId: options.userId?.trim() || null,
+      archiveId: options.archiveId ?? null,
+      maxAttempts: workerConfig.maxAttempts,
+    },
+  });
+}
+
+/**
+ * Exponential backoff with equal jitter (half fixed, half random), capped at
+ * `maxBackoffMs`.
+ */
+const computeBackoffMs = (attempts: number) => {
+  const exponent = Math.max(0, attempts - 1);
+  const ceiling = Math.min(
+    workerConfig.maxBackoffMs,
+    workerConfig.baseBackoffMs * 2 ** exponent,
+  );
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+};
+
+const claimableWhere = (now: Date) => ({
+  OR: [
+    { status: "Pending", availableAt: { lte: now } },
+    {
+      // Visibility timeout: a worker died or hung while holding the job
+      status: "Processing",
+      lockedAt: {
+        lt: new Date(now.getTime() - workerConfig.visibilityTimeoutMs),
+      },
+    },
+  ],
+});
+
+type ClaimCandidate = Pick<
+  WebhookJob,
+  "id" | "updatedAt" | "attempts" | "maxAttempts" | "archiveId"
+>;
+
+/**
+ * Dead-letters a job that timed out on its last attempt instead of running it
+ * again past its budget. Returns whether this worker made the transition.
+ */
+async function deadLetterExpiredJob(candidate: ClaimCandidate, now: Date) {
+  const message = "Visibility timeout expired on the final attempt";
+  const result = await prisma.webhookJob.updateMany({
+    where: {
+      id: candidate.id,
+      updatedAt: candidate.updatedAt,
+      ...claimableWhere(now),
+    },
+    data: {
+      status: "Dead",
+      lockedAt: null,
+      lockedBy: null,
+      lastError: message,
+    },
+  });
+
+  if (result?.count !== 1) return false;
+
+  console.error(`Webhook job ${candidate.id} dead-lettered: ${message}`);
+  if (candidate.archiveId) {
+    await markWebhookArchiveOutcome(candidate.archiveId, "Failed", message);
+  }
+  return true;
+}
+
+/**
+ * Claims the next due job. The conditional `updateMany` makes the claim
+ * atomic across workers: only one of them sees `count === 1`.
+ */
+async function claimNextJob(): Promise<WebhookJob | null> {
+  const now = new Date();
+  const candidates = (await prisma.webhookJob.findMany({
+    where: claimableWhere(now),
+    orderBy: [{ availableAt: "asc" }, { createdAt: "asc" }],
+    select: {
+      id: true,
+      updatedAt: true,
+      attempts: true,
+      maxAttempts: true,
+      archiveId: true,
+    },
+    take: 5,
+  })) as ClaimCandidate[];
+
+  for (const candidate of candidates) {
+    // Prisma can't compare two columns, so the attempt budget is checked here
+    if (candidate.attempts >= candidate.maxAttempts) {
+      await deadLetterExpiredJob(candidate, now);
+      continue;
+    }
+
+    const claimed = await prisma.webhookJob.updateMany({
+      where: {
+        id: candidate.id,
+        updatedAt: candidate.updatedAt,
+        ...claimableWhere(now),
+      },
+      data: {
+        status: "Processing",
+        lockedAt: now,
+        lockedBy: workerId,
+        attempts: { increment: 1 },
+      },
+    });
+
+    if (claimed?.count === 1) {
+      return prisma.webhookJob.findUnique({ where: { id: candidate.id } });
+    }
+  }
+
+  return null;
+}
+
+async function runJob(job: WebhookJob) {
+  try {
+    await processWebhookEvent(job.payload as MetaWebhookPayload, {
+      userId: job.userId ?? null,
+    });
+
+    // Filtering on the lock keeps a worker whose job timed out and was
+    // reclaimed from overwriting the new owner's state
+    const completed = await prisma.webhookJob.updateMany({
+      where: { id: job.id, lockedBy: workerId, lockedAt: job.lockedAt },
+      data: {
+        status: "Completed",
+        completedAt: new Date(),
+        lockedAt: null,
+        lockedBy: null,
+        lastError: null,
+      },
+    });
+
+    if (!completed?.count) {
+      console.warn(`Webhook job ${job.id} lost its lock before completing.`);
+      return;
+    }
+
+    if (job.archiveId) {
+      await markWebhookArchiveOutcome(job.archiveId, "Processed");
+    }
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : "Unknown webhook job error";
+    const exhausted = job.attempts >= job.maxAttempts;
+
+    console.error(
+      `Webhook job ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}):`,
+      error,
+    );
+
+    const released = await prisma.webhookJob.updateMany({
+      where: { id: job.id, lockedBy: workerId, lockedAt: job.lockedAt },
+      data: exhausted
+        ? { status: "Dead", lockedAt: null, lockedBy: null, lastError: message }
+        : {
+            status: "Pending",
+            availableAt: new Date(Date.now() + computeBackoffMs(job.attempts)),
+            lockedAt: null,
+            lockedBy: null,
+            lastError: message,
+          },
+    });
+
+    if (!released?.count) {
+      console.warn(`Webhook job ${job.id} lost its lock before failing.`);
+      return;
+    }
+
+    if (job.archiveId && exhausted) {
+      await markWebhookArchiveOutcome(job.archiveId, "Failed", message);
+    }
+  }
+}
+
+const schedulePoll = (delayMs: number) => {
+  if (!running) return;
+  const timer = setTimeout(() => {
+    pollTimers.delete(timer);
+    void poll();
+  }, delayMs);
+  pollTimers.add(timer);
+};
+
+async function poll() {
+  let processed = false;
+  try {
+    const job = await claimNextJob();
+    if (job) {
+      processed = true;
+      await runJob(job);
+    }
+  } catch (error) {
+    console.error("Webhook worker poll failed:", error);
+  } finally {
+    // Drain back-to-back while there is work, otherwise wait for the interval
+    schedulePoll(processed ? 0 : workerConfig.pollIntervalMs);
+  }
+}
+
+export function startWebhookWorker() {
+  if (running) return;
+  running = true;
+  console.log(
+    `Webhook worker ${workerId} started with ${workerConfig.concurrency} slot(s).`,
+  );
+  for (let slot = 0; slot < workerConfig.concurrency; slot++) {
+    schedulePoll(0);
+  }
+}
+
+export function stopWebhookWorker() {
+  running = false;
+  for (const timer of pollTimers) {
+    clearTimeout(timer);
+  }
+  pollTimers.clear();
+}
+
+export async function listWebhookJobs(
+  filters: {
+    status?: string | null;
+    userId?: string | null;
+    limit?: number;
+  } = {},
+): Promise<WebhookJobResource[]> {
+  const where: Record<string, unknown> = {};
+  if (filters.status) where.status = filters.status;
+  if (filters.userId) where.userId = filters.userId;
+
+  const limit = Math.min(Math.max(filters.limit ?? 50, 1), 200);
+  const jobs = (await prisma.webhookJob.findMany({
+    where,
+    orderBy: { createdAt: "desc" },
+    take: limit,
+  })) as WebhookJob[];
+
+  return jobs.map((job) => toWebhookJobResource(job));
+}
+
+export async function getWebhookJob(
+  jobId: string,
+): Promise<WebhookJobResource | null> {
+  const job = (await prisma.webhookJob.findUnique({
+    where: { id: jobId },
+  })) as WebhookJob | null;
+  return job ? toWebhookJobResource(job, { includePayload: true }) : null;
+}
+
+/**
+ * Moves a dead-lettered job back to the queue with a fresh attempt budget.
+ */
+export async function requeueWebhookJob(
+  jobId: string,
+): Promise<WebhookJobResource | null> {
+  const result = await prisma.webhookJob.updateMany({
+    where: { id: jobId, status: "Dead" },
+    data: {
+      status: "Pending",
+      attempts: 0,
+      availableAt: new Date(),
+      lockedAt: null,
+      lockedBy: null,
+    },
+  });
+
+  if (!result?.count) {
+    return null;
+  }
+
+  return getWebhookJob(jobId);
+}
+
+export async function getWebhookQueueStats(): Promise<Record<string, number>> {
+  const groups = (await prisma.webhookJob.groupBy({
+    by: ["status"],
+    _count: { _all: true },
+  })) as Array<{ status: string; _count: { _all: number } }>;
+
+  const stats: Record<string, number> = Object.fromEntries(
+    webhookJobStatuses.map((status) => [status, 0]),
+  );
+  for (const group of groups) {
+    stats[group.status] = group._count._all;
+  }
+  return stats;
+}
@@ -0,0 +1,117 @@
+/* End-to-end check against the Meta sandbox. Run the server with
+ * `META_SANDBOX=true` and `GRAPH_BASE_URL` pointed at its `/sandbox/graph`,
+ * then point this script at a tenant that has a phone number ID, access token
+ * and app secret configured:
+ *
+ *   SANDBOX_USER_ID=<userId> npm run test:sandbox
+ *
+ * It creates a throwaway flow, sends a signed inbound message through the
+ * sandbox webhook and waits for the flow's reply to land in the sandbox
+ * outbox. The flow is archived afterwards. */
+
+const baseUrl = (process.env.SANDBOX_BASE_URL ?? "http://127.0.0.1:3000")
+  .trim()
+  .replace(/\/+$/, "");
+const userId = process.env.SANDBOX_USER_ID?.trim() ?? "";
+const timeoutMs = Number.parseInt(process.env.SANDBOX_TIMEOUT_MS ?? "", 10);
+const deadlineMs =
+  Number.isFinite(timeoutMs) && timeoutMs > 0 ? timeoutMs : 20_000;
+
+if (!userId) {
+  console.error("SANDBOX_USER_ID is required.");
+  process.exit(1);
+}
+
+const request = async (method, path, body) => {
+  const res = await fetch(`${baseUrl}${path}`, {
+    method,
+    headers: body ? { "content-type": "application/json" } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  const text = await res.text();
+  const json = text ? JSON.parse(text) : null;
+  if (!res.ok) {
+    throw new Error(`${method} ${path} failed with ${res.status}: ${text}`);
+  }
+  return json;
+};
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const nonce = Date.now().toString(36);
+const keyword = `sandbox-e2e-${nonce}`;
+const reply = `Sandbox e2e reply ${nonce}`;
+const from = `5491100${String(Date.now()).slice(-6)}`;
+
+const definition = {
+  nodes: [
+    { id: "trigger", type: "trigger", data: { keyword } },
+    { id: "reply", type: "message", data: { text: reply } },
+    { id: "end", type: "end", data: { reason: "sandbox_e2e" } },
+  ],
+  edges: [
+    { id: "trigger-reply", source: "trigger", target: "reply" },
+    { id: "reply-end", source: "reply", target: "end" },
+  ],
+};
+
+let flowId = null;
+let exitCode = 1;
+
+try {
+  await request("GET", "/health");
+  await request("DELETE", "/sandbox/outbox");
+
+  const created = await request("POST", `/users/${userId}/flows`, {
+    name: `Sandbox e2e ${nonce}`,
+    trigger: keyword,
+    status: "Active",
+    definition,
+  });
+  flowId = created.flow.id;
+  console.log(`Created flow ${flowId} triggered by "${keyword}".`);
+
+  await request("POST", `/sandbox/users/${userId}/inbound`, {
+    from,
+    name: "Sandbox E2E",
+    text: keyword,
+  });
+  console.log(`Sent inbound "${keyword}" from ${from}.`);
+
+  const startedAt = Date.now();
+  let delivered = null;
+  while (!delivered && Date.now() - startedAt < deadlineMs) {
+    await sleep(250);
+    const { messages } = await request(
+      "GET",
+      `/sandbox/outbox?to=${encodeURIComponent(from)}`,
+    );
+    delivered = messages.find(
+      (message) =>
+        message.type === "text" && message.body?.text?.body === reply,
+    );
+  }
+
+  if (delivered) {
+    console.log(
+      `Flow replied with message ${delivered.id} after ${Date.now() - startedAt}ms.`,
+    );
+    exitCode = 0;
+  } else {
+    console.error(
+      `No reply reached the sandbox outbox within ${deadlineMs}ms.`,
+    );
+  }
+} catch (error) {
+  console.error("Sandbox e2e run failed:", error);
+} finally {
+  if (flowId) {
+    try {
+      await request("PUT", `/flows/${flowId}`, { status: "Archived" });
+    } catch (error) {
+      console.warn(`Failed to archive flow ${flowId}:`, error);
+    }
+  }
+}
+
+process.exit(exitCode);
@@ -8,6 +8,10 @@ declare module "express" {
     params: Params;
     body: ReqBody;
     query: ReqQuery;
+    headers: Record<string, string | string[] | undefined>;
+    ip?: string;
+    rawBody?: Buffer;
+    get(name: string): string | undefined;
   }
 
   export interface Response<ResBody = unknown> {
@@ -15,6 +19,7 @@ declare module "express" {
     json(body: ResBody): Response<ResBody>;
     send(body?: ResBody): Response<ResBody>;
     sendStatus(code: number): Response<ResBody>;
+    setHeader(name: string, value: string | number): Response<ResBody>;
   }
 
   export type NextFunction = (error?: unknown) => void;
@@ -77,12 +82,33 @@ declare module "express" {
       path: string,
       ...handlers: RequestHandler<Params, ResBody, ReqBody, ReqQuery>[]
     ): this;
+    delete<
+      Params = Record<string, string>,
+      ResBody = unknown,
+      ReqBody = Record<string, unknown> | undefined,
+      ReqQuery = Record<string, unknown>,
+    >(
+      path: string,
+      ...handlers: RequestHandler<Params, ResBody, ReqBody, ReqQuery>[]
+    ): this;
     listen(port: number, callback?: () => void): unknown;
   }
 
   export interface ExpressStatic {
-    json(options?: { limit?: string | number }): RequestHandler;
+    json(options?: {
+      limit?: string | number;
+      verify?: (
+        req: Request,
+        res: Response,
+        buf: Buffer,
+        encoding: string,
+      ) => void;
+    }): RequestHandler;
     urlencoded(options?: { extended?: boolean }): RequestHandler;
+    raw(options?: {
+      type?: string | string[];
+      limit?: string | number;
+    }): RequestHandler;
   }
 
   export interface Express extends ExpressStatic {
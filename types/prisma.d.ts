@@ -21,6 +21,7 @@ declare module "@prisma/client" {
     updatedAt: Date | string;
     userId: string;
     notes?: string | null;
+    lastInboundAt?: Date | string | null;
   }
 
   export interface Flow {
@@ -48,6 +49,7 @@ declare module "@prisma/client" {
     context?: unknown;
     createdAt: Date | string;
     updatedAt: Date | string;
+    wakeAt?: Date | string | null;
     contactId: string;
     flowId: string;
   }
@@ -90,6 +92,107 @@ declare module "@prisma/client" {
     flowId: string;
   }
 
+  export interface ProcessedInboundMessage {
+    id: string;
+    messageId: string;
+    userId: string;
+    processedAt: Date;
+    expiresAt: Date;
+  }
+
+  export interface WebhookJob {
+    id: string;
+    status: string;
+    payload: unknown;
+    userId?: string | null;
+    archiveId?: string | null;
+    attempts: number;
+    maxAttempts: number;
+    availableAt: Date;
+    lockedAt?: Date | null;
+    lockedBy?: string | null;
+    lastError?: string | null;
+    completedAt?: Date | null;
+    createdAt: Date;
+    updatedAt: Date;
+  }
+
+  export interface AccountEvent {
+    id: string;
+    field: string;
+    event?: string | null;
+    subject?: string | null;
+    payload: unknown;
+    actions?: unknown;
+    dedupKey?: string | null;
+    receivedAt: Date;
+    userId: string;
+  }
+
+  export interface WebhookArchive {
+    id: string;
+    payload: unknown;
+    userId?: string | null;
+    outcome: string;
+    error?: string | null;
+    dryRun: boolean;
+    receivedAt: Date;
+    processedAt?: Date | null;
+    replayOfId?: string | null;
+  }
+
+  export interface MediaAsset {
+    id: string;
+    userId: string;
+    source: string;
+    metaMediaId?: string | null;
+    messageId?: string | null;
+    mediaType: string;
+    mimeType: string;
+    sha256: string;
+    size: number;
+    filename?: string | null;
+    storageDriver: string;
+    storageKey: string;
+    uploadMediaId?: string | null;
+    uploadPhoneNumberId?: string | null;
+    uploadExpiresAt?: Date | null;
+    createdAt: Date;
+  }
+
+  export interface OutboundMessage {
+    id: string;
+    userId: string;
+    contactId?: string | null;
+    sessionId?: string | null;
+    source: string;
+    waMessageId?: string | null;
+    to: string;
+    type: string;
+    payload: unknown;
+    status: string;
+    error?: string | null;
+    errorCode?: number | null;
+    conversationId?: string | null;
+    sentAt?: Date | null;
+    deliveredAt?: Date | null;
+    readAt?: Date | null;
+    failedAt?: Date | null;
+    createdAt: Date;
+    updatedAt: Date;
+  }
+
+  export interface OutboundMessageStatus {
+    id: string;
+    outboundMessageId: string;
+    status: string;
+    error?: string | null;
+    errorCode?: number | null;
+    payload?: unknown;
+    occurredAt: Date;
+    recordedAt: Date;
+  }
+
   export namespace Prisma {
     export type JsonValue = unknown;
     export type JsonObject = Record<string, unknown>;